@@ -0,0 +1,46 @@
+import { z } from "zod";
+
+/**
+ * Format of an artifact gathering multiple build infos, e.g. when a project is compiled with multiple solc versions
+ * ```json
+ * {
+ *   "_format": "soko-bundle-1",
+ *   "buildInfos": [<build info>, <build info>]
+ * }
+ * ```
+ * An artifact with a single build info is stored as the build info itself.
+ */
+export const ARTIFACT_BUNDLE_FORMAT = "soko-bundle-1";
+
+const ZArtifactBundle = z.object({
+  _format: z.literal(ARTIFACT_BUNDLE_FORMAT),
+  buildInfos: z.array(z.unknown()).min(1),
+});
+
+/**
+ * Gather the contents of multiple build info files into the content of a single artifact
+ * @param buildInfoContents Contents of the build info files
+ * @returns The content of the artifact, the build info itself if there is only one
+ */
+export function createArtifactBundle(buildInfoContents: string[]): string {
+  if (buildInfoContents.length === 1) {
+    return buildInfoContents[0];
+  }
+  return JSON.stringify({
+    _format: ARTIFACT_BUNDLE_FORMAT,
+    buildInfos: buildInfoContents.map((content) => JSON.parse(content)),
+  });
+}
+
+/**
+ * Extract the build infos of a parsed artifact, the build infos are not validated
+ * @param rawArtifact The parsed content of an artifact
+ * @returns The build infos of a bundle, or the artifact itself otherwise
+ */
+export function extractBuildInfos(rawArtifact: unknown): unknown[] {
+  const bundleParsingResult = ZArtifactBundle.safeParse(rawArtifact);
+  if (bundleParsingResult.success) {
+    return bundleParsingResult.data.buildInfos;
+  }
+  return [rawArtifact];
+}
@@ -0,0 +1,66 @@
+import { pipeline, Readable, Transform } from "stream";
+import { promisify } from "util";
+import zlib from "zlib";
+
+export type CompressionAlgorithm = "none" | "gzip" | "brotli";
+
+const gzip = promisify(zlib.gzip);
+const brotliCompress = promisify(zlib.brotliCompress);
+
+/**
+ * Compress the content of an artifact before its upload
+ * @param content Raw content of the artifact
+ * @param algorithm Compression algorithm, `none` leaves the content untouched
+ * @returns The content to upload
+ */
+export async function compressArtifact(
+  content: string,
+  algorithm: CompressionAlgorithm,
+): Promise<string | Buffer> {
+  if (algorithm === "gzip") {
+    return gzip(content, { level: zlib.constants.Z_BEST_COMPRESSION });
+  }
+  if (algorithm === "brotli") {
+    return brotliCompress(content, {
+      params: {
+        [zlib.constants.BROTLI_PARAM_MODE]: zlib.constants.BROTLI_MODE_TEXT,
+        [zlib.constants.BROTLI_PARAM_SIZE_HINT]: Buffer.byteLength(content),
+      },
+    });
+  }
+  return content;
+}
+
+/**
+ * Decompress the stream of a downloaded artifact
+ *
+ * The compression algorithm is the one recorded by the storage, the artifacts pushed before the support of compression are recorded as uncompressed.
+ * @param stream Stream of the downloaded artifact
+ * @param algorithm Compression algorithm recorded by the storage
+ * @returns The stream of the uncompressed artifact
+ */
+export function decompressArtifactStream(
+  stream: Readable,
+  algorithm: CompressionAlgorithm,
+): Readable {
+  if (algorithm === "gzip") {
+    return pipeDecompression(stream, zlib.createGunzip());
+  }
+  if (algorithm === "brotli") {
+    return pipeDecompression(stream, zlib.createBrotliDecompress());
+  }
+  return stream;
+}
+
+export function isCompressionAlgorithm(
+  value: string | undefined,
+): value is CompressionAlgorithm {
+  return value === "none" || value === "gzip" || value === "brotli";
+}
+
+/**
+ * Pipe the stream into the decompression, the errors are forwarded to the returned stream by the pipeline
+ */
+function pipeDecompression(source: Readable, decompression: Transform) {
+  return pipeline(source, decompression, () => {});
+}
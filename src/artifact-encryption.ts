@@ -0,0 +1,132 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import { Readable } from "stream";
+import { readStreamHead, ScriptError } from "./utils";
+
+export type EncryptionConfiguration = {
+  // Name of the environment variable holding the key
+  keyEnvVar?: string;
+  // Path of the file holding the key
+  keyPath?: string;
+};
+
+/**
+ * Header of an encrypted artifact, it is followed by the IV, the authentication tag and the ciphertext
+ */
+const ENCRYPTION_MAGIC = Buffer.from("SOKOENC1");
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+/**
+ * Resolve the AES-256 encryption key from the environment variable or the file of the configuration
+ *
+ * The key is expected to be 32 bytes encoded in hex or base64, e.g. generated with `openssl rand -hex 32`.
+ * @param config The encryption configuration
+ * @returns The key
+ */
+export async function resolveEncryptionKey(
+  config: EncryptionConfiguration,
+): Promise<Buffer> {
+  let encodedKey: string | undefined = undefined;
+  if (config.keyEnvVar) {
+    encodedKey = process.env[config.keyEnvVar];
+    if (!encodedKey) {
+      throw new ScriptError(
+        `The encryption key is expected in the environment variable "${config.keyEnvVar}" but it is not set`,
+      );
+    }
+  } else if (config.keyPath) {
+    const keyPath = config.keyPath;
+    encodedKey = await fs.readFile(keyPath, "utf-8").catch(() => {
+      throw new ScriptError(
+        `Unable to read the encryption key file at path "${keyPath}"`,
+      );
+    });
+  }
+  if (!encodedKey) {
+    throw new ScriptError("No encryption key has been configured");
+  }
+
+  const trimmedKey = encodedKey.trim();
+  const key = /^[0-9a-fA-F]+$/.test(trimmedKey)
+    ? Buffer.from(trimmedKey, "hex")
+    : Buffer.from(trimmedKey, "base64");
+  if (key.length !== KEY_LENGTH) {
+    throw new ScriptError(
+      `The encryption key must be ${KEY_LENGTH} bytes encoded in hex or base64, e.g. generated with \`openssl rand -hex 32\``,
+    );
+  }
+  return key;
+}
+
+/**
+ * Encrypt the content of an artifact, after its compression, using AES-256-GCM
+ * @param content Content to upload
+ * @param key The encryption key
+ * @returns The encrypted content, prefixed by a header
+ */
+export function encryptArtifact(content: string | Buffer, key: Buffer): Buffer {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(content), cipher.final()]);
+  return Buffer.concat([ENCRYPTION_MAGIC, iv, cipher.getAuthTag(), ciphertext]);
+}
+
+/**
+ * Decrypt the stream of a downloaded artifact if it is encrypted, the stream is returned untouched otherwise
+ *
+ * The encrypted content is fully read in order to authenticate it before returning anything.
+ * @param stream Stream of the downloaded artifact
+ * @param getKey Resolve the encryption key, `undefined` if no encryption is configured
+ * @returns The stream of the decrypted artifact, still compressed if it has been compressed
+ */
+export async function decryptArtifactStream(
+  stream: Readable,
+  getKey: (() => Promise<Buffer>) | undefined,
+): Promise<Readable> {
+  const { head, stream: replayedStream } = await readStreamHead(
+    stream,
+    ENCRYPTION_MAGIC.length,
+  );
+  if (!head.equals(ENCRYPTION_MAGIC)) {
+    return replayedStream;
+  }
+  if (!getKey) {
+    throw new ScriptError(
+      "The artifact is encrypted but no encryption key has been configured",
+    );
+  }
+  const [key, content] = await Promise.all([getKey(), readAll(replayedStream)]);
+
+  const ivStart = ENCRYPTION_MAGIC.length;
+  const authTagStart = ivStart + IV_LENGTH;
+  const ciphertextStart = authTagStart + AUTH_TAG_LENGTH;
+  const decipher = crypto.createDecipheriv(
+    "aes-256-gcm",
+    key,
+    content.subarray(ivStart, authTagStart),
+  );
+  decipher.setAuthTag(content.subarray(authTagStart, ciphertextStart));
+  let plaintext: Buffer;
+  try {
+    plaintext = Buffer.concat([
+      decipher.update(content.subarray(ciphertextStart)),
+      decipher.final(),
+    ]);
+  } catch {
+    throw new ScriptError(
+      "Unable to decrypt the artifact, the encryption key is wrong or the artifact has been altered",
+    );
+  }
+  return Readable.from([plaintext]);
+}
+
+function readAll(stream: Readable): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    stream.on("data", (chunk) => chunks.push(Buffer.from(chunk)));
+    stream.on("error", reject);
+    stream.on("end", () => resolve(Buffer.concat(chunks)));
+  });
+}
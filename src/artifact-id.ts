@@ -0,0 +1,161 @@
+import crypto from "crypto";
+import { z } from "zod";
+import { ZBuildInfo } from "./utils";
+import { extractBuildInfos } from "./artifact-bundle";
+
+/**
+ * Versions of the derivation of an artifact ID:
+ * - `v0`: hash of the raw content of the build info file, the ID depends on the whitespaces and the order of the keys,
+ * - `v1`: hash of the canonical serialization of the compilation input and of the relevant compilation output, the build infos of a bundle are taken regardless of their order.
+ *
+ * IDs derived with a previous version remain valid, an artifact is resolved by trying every version.
+ */
+export type ArtifactIdVersion = "v0" | "v1";
+
+export const CURRENT_ARTIFACT_ID_VERSION: ArtifactIdVersion = "v1";
+
+// Versions tried in order when resolving an ID from a content, the current one first
+const ARTIFACT_ID_VERSIONS: ArtifactIdVersion[] = ["v1", "v0"];
+
+/**
+ * Derive the ID of an artifact from its content
+ * @param content Content of the build info file
+ * @param version Version of the derivation, defaults to the current one
+ * @returns The ID of the artifact
+ */
+export function deriveArtifactId(
+  content: string,
+  version: ArtifactIdVersion = CURRENT_ARTIFACT_ID_VERSION,
+): string {
+  if (version === "v0") {
+    return hashContent(content);
+  }
+  const identifyingContents = extractBuildInfos(JSON.parse(content))
+    .map((rawBuildInfo) =>
+      canonicalize(extractIdentifyingContent(rawBuildInfo)),
+    )
+    .sort();
+  if (identifyingContents.length === 1) {
+    return hashContent(identifyingContents[0]);
+  }
+  return hashContent(`{"buildInfos":[${identifyingContents.join(",")}]}`);
+}
+
+/**
+ * Derive the IDs an artifact may have been stored with, one per version of the derivation
+ *
+ * The versions that can not be applied to the content, e.g. an invalid build info for `v1`, are skipped.
+ * @param content Content of the build info file
+ * @returns The candidate IDs, the one derived with the current version first
+ */
+export function deriveArtifactIdCandidates(content: string): string[] {
+  const candidates: string[] = [];
+  for (const version of ARTIFACT_ID_VERSIONS) {
+    try {
+      const id = deriveArtifactId(content, version);
+      if (!candidates.includes(id)) {
+        candidates.push(id);
+      }
+    } catch {
+      continue;
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Check whether a content matches an ID, whatever the version used to derive the ID
+ */
+export function matchesArtifactId(content: string, id: string): boolean {
+  return deriveArtifactIdCandidates(content).includes(id);
+}
+
+/**
+ * Resolve the ID of an artifact from its content, using the first candidate ID that exists
+ * @param content Content of the build info file
+ * @param hasId Check whether an ID exists
+ * @returns The existing ID, or the ID derived with the current version if none exists
+ */
+export async function resolveArtifactId(
+  content: string,
+  hasId: (id: string) => Promise<boolean>,
+): Promise<string> {
+  const candidates = deriveArtifactIdCandidates(content);
+  for (const candidate of candidates) {
+    if (await hasId(candidate)) {
+      return candidate;
+    }
+  }
+  return candidates[0];
+}
+
+function hashContent(content: string): string {
+  const hash = crypto.createHash("sha256");
+  hash.update(content);
+  return hash.digest("hex").substring(0, 12);
+}
+
+/**
+ * Keep the parts of a build info identifying a compilation: the compiler version, the input and, for each contract, the ABI, the metadata and the bytecodes
+ *
+ * The build info ID, the ASTs and the debugging data are left out as they depend on the tool having produced the build info.
+ */
+function extractIdentifyingContent(rawBuildInfo: unknown): unknown {
+  // The build info is validated by the complete schema, the identifying parts are taken raw as the complete schema drops the unknown keys
+  const buildInfo = ZBuildInfo.parse(rawBuildInfo);
+  const rawParts = ZRawIdentifyingParts.parse(rawBuildInfo);
+  const contracts: Record<string, Record<string, unknown>> = {};
+  for (const contractPath in rawParts.output.contracts) {
+    contracts[contractPath] = {};
+    for (const contractName in rawParts.output.contracts[contractPath]) {
+      const contract = rawParts.output.contracts[contractPath][contractName];
+      contracts[contractPath][contractName] = {
+        abi: contract.abi,
+        metadata: contract.metadata,
+        bytecode: contract.evm?.bytecode?.object,
+        deployedBytecode: contract.evm?.deployedBytecode?.object,
+      };
+    }
+  }
+  return {
+    solcLongVersion: buildInfo.solcLongVersion,
+    input: rawParts.input,
+    contracts,
+  };
+}
+
+const ZRawBytecode = z.object({ object: z.unknown() }).optional();
+const ZRawIdentifyingParts = z.object({
+  input: z.unknown(),
+  output: z.object({
+    contracts: z.record(
+      z.string(),
+      z.record(
+        z.string(),
+        z.object({
+          abi: z.unknown(),
+          metadata: z.unknown(),
+          evm: z
+            .object({ bytecode: ZRawBytecode, deployedBytecode: ZRawBytecode })
+            .optional(),
+        }),
+      ),
+    ),
+  }),
+});
+
+/**
+ * Serialize a JSON value with sorted keys and without whitespaces
+ */
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalize(item ?? null)).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, entryValue]) => entryValue !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entryValue]) => `${JSON.stringify(key)}:${canonicalize(entryValue)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,127 @@
+import { execFile } from "child_process";
+import os from "os";
+import { promisify } from "util";
+import { z } from "zod";
+import { ZBuildInfo } from "./utils";
+import { extractBuildInfos } from "./artifact-bundle";
+import { CURRENT_ARTIFACT_ID_VERSION } from "./artifact-id";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Metadata document stored next to an artifact ID when it is pushed
+ */
+export const ZArtifactMetadata = z.object({
+  id: z.string(),
+  // Version of the derivation of the ID, absent for the artifacts pushed before the IDs were versioned, i.e. `v0`
+  idVersion: z.enum(["v0", "v1"]).optional(),
+  // Identity of the pusher, derived from the git configuration or the OS user
+  pushedBy: z.string(),
+  // ISO date of the push
+  pushedAt: z.string(),
+  // Git state of the repository at the time of the push, `null` outside of a git repository
+  git: z
+    .object({
+      commit: z.string(),
+      dirty: z.boolean(),
+    })
+    .nullable(),
+  // Compiler versions, separated by commas for a bundle of multiple build infos
+  solcLongVersion: z.string(),
+  optimizer: z.object({
+    enabled: z.boolean().optional(),
+    runs: z.number().optional(),
+  }),
+  viaIR: z.boolean().optional(),
+  evmVersion: z.string().optional(),
+  // Contracts of the artifact, formatted as "path/to/Contract.sol:Contract"
+  contracts: z.array(z.string()),
+  // Size of the artifact in bytes
+  size: z.number(),
+});
+export type ArtifactMetadata = z.infer<typeof ZArtifactMetadata>;
+
+/**
+ * Generate the metadata of an artifact about to be pushed
+ * @param id ID of the artifact
+ * @param content Content of the artifact
+ * @returns The metadata of the artifact
+ */
+export async function generateArtifactMetadata(
+  id: string,
+  content: string,
+): Promise<ArtifactMetadata> {
+  const buildInfos = extractBuildInfos(JSON.parse(content)).map(
+    (rawBuildInfo) => ZBuildInfo.parse(rawBuildInfo),
+  );
+  // The settings of the first build info are reported for a bundle
+  const buildInfo = buildInfos[0];
+
+  const contracts = new Set<string>();
+  const solcLongVersions = new Set<string>();
+  for (const { solcLongVersion, output } of buildInfos) {
+    solcLongVersions.add(solcLongVersion);
+    for (const contractPath in output.contracts) {
+      for (const contractName in output.contracts[contractPath]) {
+        contracts.add(`${contractPath}:${contractName}`);
+      }
+    }
+  }
+
+  const [pushedBy, git] = await Promise.all([
+    retrievePusher(),
+    retrieveGitState(),
+  ]);
+
+  return {
+    id,
+    idVersion: CURRENT_ARTIFACT_ID_VERSION,
+    pushedBy,
+    pushedAt: new Date().toISOString(),
+    git,
+    solcLongVersion: Array.from(solcLongVersions).join(", "),
+    optimizer: {
+      enabled: buildInfo.input.settings.optimizer.enabled,
+      runs: buildInfo.input.settings.optimizer.runs,
+    },
+    viaIR: buildInfo.input.settings.viaIR,
+    evmVersion: buildInfo.input.settings.evmVersion,
+    contracts: Array.from(contracts),
+    size: Buffer.byteLength(content),
+  };
+}
+
+async function retrievePusher(): Promise<string> {
+  const [name, email] = await Promise.all([
+    runGit(["config", "user.name"]),
+    runGit(["config", "user.email"]),
+  ]);
+  if (name && email) {
+    return `${name} <${email}>`;
+  }
+  if (name || email) {
+    return (name || email) as string;
+  }
+  return os.userInfo().username;
+}
+
+async function retrieveGitState(): Promise<ArtifactMetadata["git"]> {
+  const commit = await runGit(["rev-parse", "HEAD"]);
+  if (!commit) {
+    return null;
+  }
+  const status = await runGit(["status", "--porcelain"]);
+  return {
+    commit,
+    dirty: Boolean(status),
+  };
+}
+
+/**
+ * Run a git command, an undefined value is returned if git is not available or if the command fails
+ */
+async function runGit(args: string[]): Promise<string | undefined> {
+  return execFileAsync("git", args)
+    .then(({ stdout }) => stdout.trim())
+    .catch(() => undefined);
+}
@@ -0,0 +1,170 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import { z } from "zod";
+
+/**
+ * Signature document stored next to an artifact ID or a tag when it is pushed with a signing key
+ */
+export const ZArtifactSignature = z.object({
+  // Signed statement, it binds the ID or the tag to the content of the artifact
+  statement: z.object({
+    project: z.string(),
+    id: z.string(),
+    // Only present in the signature of a tag
+    tag: z.string().optional(),
+    // Hex encoded sha256 hash of the full content of the artifact
+    sha256: z.string(),
+  }),
+  // PEM encoded public key of the signer
+  publicKey: z.string(),
+  // Base64 encoded signature of the serialized statement
+  signature: z.string(),
+});
+export type ArtifactSignature = z.infer<typeof ZArtifactSignature>;
+
+export type SignatureVerification =
+  | { status: "valid" }
+  | { status: "unsigned" }
+  | { status: "invalid"; reason: string };
+
+/**
+ * Read a PEM encoded private key file, e.g. an ed25519 key generated with `openssl genpkey -algorithm ed25519`
+ */
+export async function readSigningKey(path: string): Promise<crypto.KeyObject> {
+  const pem = await fs.readFile(path, "utf-8");
+  return crypto.createPrivateKey(pem);
+}
+
+/**
+ * Sign an artifact ID or a tag
+ * @param artifact The project, the ID and the tag if a tag is signed
+ * @param content Content of the artifact
+ * @param signingKey Private key of the signer
+ * @returns The signature document
+ */
+export function signArtifact(
+  artifact: { project: string; id: string; tag?: string },
+  content: string,
+  signingKey: crypto.KeyObject,
+): ArtifactSignature {
+  const statement: ArtifactSignature["statement"] = {
+    project: artifact.project,
+    id: artifact.id,
+    sha256: hashContent(content),
+  };
+  if (artifact.tag !== undefined) {
+    statement.tag = artifact.tag;
+  }
+  const signature = crypto.sign(
+    null,
+    Buffer.from(serializeStatement(statement)),
+    signingKey,
+  );
+  return {
+    statement,
+    publicKey: crypto
+      .createPublicKey(signingKey)
+      .export({ type: "spki", format: "pem" })
+      .toString(),
+    signature: signature.toString("base64"),
+  };
+}
+
+/**
+ * Verify the signature of a pulled artifact ID or tag
+ *
+ * The signature is valid if it has been made by one of the trusted keys, for the same project, ID or tag, and for the same content.
+ * @param signature The signature document, `undefined` if the artifact is not signed
+ * @param artifact The project and the pulled ID or tag
+ * @param content Content of the pulled artifact
+ * @param trustedPublicKeys PEM encoded trusted public keys
+ * @returns The result of the verification
+ */
+export function verifyArtifactSignature(
+  signature: ArtifactSignature | undefined,
+  artifact: { project: string; type: "tag" | "id"; value: string },
+  content: string,
+  trustedPublicKeys: string[],
+): SignatureVerification {
+  if (!signature) {
+    return { status: "unsigned" };
+  }
+  const { statement } = signature;
+  if (statement.project !== artifact.project) {
+    return {
+      status: "invalid",
+      reason: `the signature has been made for project "${statement.project}"`,
+    };
+  }
+  const signedValue = artifact.type === "tag" ? statement.tag : statement.id;
+  if (
+    signedValue !== artifact.value ||
+    (artifact.type === "id" && statement.tag !== undefined)
+  ) {
+    return {
+      status: "invalid",
+      reason: `the signature has been made for another ${artifact.type === "tag" ? "tag" : "ID"}`,
+    };
+  }
+  if (statement.sha256 !== hashContent(content)) {
+    return {
+      status: "invalid",
+      reason: "the content does not match the signed content",
+    };
+  }
+
+  const signerKey = toSpkiDer(signature.publicKey);
+  const trustedKey = trustedPublicKeys.find((publicKey) => {
+    const trustedKeyDer = toSpkiDer(publicKey);
+    return trustedKeyDer !== undefined && trustedKeyDer === signerKey;
+  });
+  if (!trustedKey) {
+    return {
+      status: "invalid",
+      reason: "the signer key is not trusted",
+    };
+  }
+  const isValid = crypto.verify(
+    null,
+    Buffer.from(serializeStatement(statement)),
+    crypto.createPublicKey(trustedKey),
+    Buffer.from(signature.signature, "base64"),
+  );
+  if (!isValid) {
+    return {
+      status: "invalid",
+      reason: "the signature does not match the signed statement",
+    };
+  }
+  return { status: "valid" };
+}
+
+/**
+ * Serialize a statement with a fixed order of the keys, the signature is made over this serialization
+ */
+function serializeStatement(statement: ArtifactSignature["statement"]) {
+  return JSON.stringify({
+    project: statement.project,
+    id: statement.id,
+    tag: statement.tag,
+    sha256: statement.sha256,
+  });
+}
+
+function hashContent(content: string): string {
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Normalize a PEM encoded public key in order to compare keys, `undefined` is returned for an invalid key
+ */
+function toSpkiDer(publicKey: string): string | undefined {
+  try {
+    return crypto
+      .createPublicKey(publicKey)
+      .export({ type: "spki", format: "der" })
+      .toString("base64");
+  } catch {
+    return undefined;
+  }
+}
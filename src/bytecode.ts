@@ -0,0 +1,149 @@
+/**
+ * The Solidity compiler appends the CBOR encoded metadata to the bytecode, e.g. the IPFS hash of the metadata and the compiler version.
+ * The last two bytes hold the length of the CBOR payload, see https://docs.soliditylang.org/en/latest/metadata.html#encoding-of-the-metadata-hash-in-the-bytecode
+ *
+ * The bytecode is handled as a hex string, with or without the `0x` prefix, it may contain library placeholders.
+ */
+const CBOR_LENGTH_HEX_SIZE = 4;
+
+/**
+ * Split a bytecode between its executable code and its CBOR encoded metadata suffix
+ * @param bytecode The bytecode as a hex string
+ * @returns The executable code and the metadata suffix, the suffix is empty if the bytecode does not end with CBOR encoded metadata
+ */
+export function splitMetadataSuffix(bytecode: string): {
+  code: string;
+  metadata: string;
+} {
+  const hexBytecode = bytecode.startsWith("0x") ? bytecode.slice(2) : bytecode;
+  const prefix = bytecode.length - hexBytecode.length;
+  if (hexBytecode.length < CBOR_LENGTH_HEX_SIZE) {
+    return { code: bytecode, metadata: "" };
+  }
+  const cborLength = parseInt(hexBytecode.slice(-CBOR_LENGTH_HEX_SIZE), 16);
+  const suffixLength = cborLength * 2 + CBOR_LENGTH_HEX_SIZE;
+  if (Number.isNaN(cborLength) || suffixLength > hexBytecode.length) {
+    return { code: bytecode, metadata: "" };
+  }
+  const suffixStart = hexBytecode.length - suffixLength;
+  // The metadata is a CBOR map, its first byte is a major type 5 header
+  const firstByte = parseInt(
+    hexBytecode.slice(suffixStart, suffixStart + 2),
+    16,
+  );
+  if (Number.isNaN(firstByte) || firstByte < 0xa0 || firstByte > 0xbf) {
+    return { code: bytecode, metadata: "" };
+  }
+  return {
+    code: bytecode.slice(0, prefix + suffixStart),
+    metadata: hexBytecode.slice(suffixStart),
+  };
+}
+
+// Keys of the metadata map, see https://docs.soliditylang.org/en/latest/metadata.html#encoding-of-the-metadata-hash-in-the-bytecode
+const METADATA_KEYS = ["ipfs", "bzzr0", "bzzr1", "solc", "experimental"];
+
+/**
+ * Strip the CBOR encoded metadata of a bytecode, the bytecode is returned untouched if it has no metadata
+ *
+ * Besides the suffix, the metadata embedded in the bytecode is stripped, e.g. the metadata of the creation code of the contracts deployed by a factory.
+ * An embedded metadata is recognized as a CBOR map of the known metadata keys followed by its length.
+ */
+export function stripMetadata(bytecode: string): string {
+  const { code } = splitMetadataSuffix(bytecode);
+  let stripped = "";
+  let copiedUntil = 0;
+  let cursor = 0;
+  while (cursor < code.length) {
+    const segmentEnd = readEmbeddedMetadataEnd(code, cursor);
+    if (segmentEnd === undefined) {
+      cursor += 2;
+      continue;
+    }
+    stripped += code.slice(copiedUntil, cursor);
+    copiedUntil = segmentEnd;
+    cursor = segmentEnd;
+  }
+  return stripped + code.slice(copiedUntil);
+}
+
+/**
+ * Read an embedded metadata starting at a position of a bytecode
+ * @returns The position following the length of the metadata, `undefined` if there is no metadata at the position
+ */
+function readEmbeddedMetadataEnd(
+  hex: string,
+  start: number,
+): number | undefined {
+  let cursor = start;
+  const readByte = (): number | undefined => {
+    const byte = hex.slice(cursor, cursor + 2);
+    if (!/^[0-9a-fA-F]{2}$/.test(byte)) {
+      return undefined;
+    }
+    cursor += 2;
+    return parseInt(byte, 16);
+  };
+  // Payload of a CBOR string, its length is either in the header or in the following byte
+  const readLength = (
+    header: number,
+    majorType: number,
+  ): number | undefined => {
+    if (header >= majorType && header < majorType + 0x18) {
+      return header - majorType;
+    }
+    if (header === majorType + 0x18) {
+      return readByte();
+    }
+    return undefined;
+  };
+
+  const mapHeader = readByte();
+  if (
+    mapHeader === undefined ||
+    mapHeader < 0xa1 ||
+    mapHeader >= 0xa1 + METADATA_KEYS.length
+  ) {
+    return undefined;
+  }
+  for (let entry = 0; entry < mapHeader - 0xa0; entry++) {
+    const keyHeader = readByte();
+    const keyLength =
+      keyHeader === undefined ? undefined : readLength(keyHeader, 0x60);
+    if (keyLength === undefined) {
+      return undefined;
+    }
+    const key = Buffer.from(
+      hex.slice(cursor, cursor + keyLength * 2),
+      "hex",
+    ).toString("utf-8");
+    if (!METADATA_KEYS.includes(key)) {
+      return undefined;
+    }
+    cursor += keyLength * 2;
+
+    const valueHeader = readByte();
+    if (valueHeader === undefined) {
+      return undefined;
+    }
+    // Booleans, e.g. `experimental`, have no payload
+    if (valueHeader === 0xf4 || valueHeader === 0xf5) {
+      continue;
+    }
+    const valueLength =
+      readLength(valueHeader, 0x40) ?? readLength(valueHeader, 0x60);
+    if (valueLength === undefined || cursor + valueLength * 2 > hex.length) {
+      return undefined;
+    }
+    cursor += valueLength * 2;
+  }
+
+  const lengthHex = hex.slice(cursor, cursor + CBOR_LENGTH_HEX_SIZE);
+  if (
+    !/^[0-9a-fA-F]{4}$/.test(lengthHex) ||
+    parseInt(lengthHex, 16) * 2 !== cursor - start
+  ) {
+    return undefined;
+  }
+  return cursor + CBOR_LENGTH_HEX_SIZE;
+}
@@ -2,14 +2,41 @@ import "hardhat/types/config";
 import { extendConfig, scope } from "hardhat/config";
 import { HardhatConfig, HardhatUserConfig } from "hardhat/types/config";
 import { z } from "zod";
-import { LOG_COLORS, ScriptError, toAsyncResult } from "./utils";
+import fs from "fs/promises";
+import { formatSize, LOG_COLORS, ScriptError, toAsyncResult } from "./utils";
 import { S3BucketProvider } from "./s3-bucket-provider";
+import { LocalDirectoryProvider } from "./local-directory-provider";
+import { StorageProvider } from "./storage-provider";
 import { pull } from "./scripts/pull";
 import { generateArtifactsSummariesAndTypings } from "./scripts/generate-typings";
 import { pushArtifact } from "./scripts/push";
+import { tagArtifact } from "./scripts/tag";
+import { deleteArtifact, untagArtifact } from "./scripts/delete";
+import { parseDuration, prune } from "./scripts/prune";
+import { verifyPulledArtifacts } from "./scripts/verify";
 import { LocalStorageProvider } from "./scripts/local-storage-provider";
-import { generateStructuredDataForArtifacts } from "./scripts/list";
-import { generateDiffWithTargetRelease } from "./scripts/diff";
+import {
+  ARTIFACT_LIST_COLUMNS,
+  generateStructuredDataForArtifacts,
+  generateStructuredDataForRemoteArtifacts,
+  REMOTE_ARTIFACT_LIST_COLUMNS,
+} from "./scripts/list";
+import {
+  generateDiffBetweenArtifacts,
+  generateDiffWithTargetRelease,
+} from "./scripts/diff";
+import { checkStorageLayouts } from "./scripts/check-storage-layout";
+import {
+  createHttpJsonRpcProvider,
+  verifyDeployment,
+} from "./scripts/verify-deployment";
+import { exportVerificationInput } from "./scripts/export-verification";
+import { EXPORT_FORMATS, exportArtifacts } from "./scripts/export-artifacts";
+import {
+  createDiffReport,
+  DIFF_REPORT_FORMATS,
+  formatDiffReport,
+} from "./scripts/diff-report";
 
 export type SokoHardhatUserConfig = {
   // The name of the project
@@ -21,32 +48,130 @@ export type SokoHardhatUserConfig = {
   // Default to `.soko-typings`
   typingsPath?: string;
   // Configuration of the storage where the artifacts will be stored
-  // Only AWS is supported for now
-  storageConfiguration: {
-    type: "aws";
-    awsRegion: string;
-    awsBucketName: string;
-    awsAccessKeyId: string;
-    awsSecretAccessKey: string;
+  // Either an AWS S3 bucket or a local directory
+  storageConfiguration:
+    | {
+        type: "aws";
+        awsRegion: string;
+        awsBucketName: string;
+        // Static credentials, both keys must be provided together
+        // If not provided, the credentials are resolved using the AWS default provider chain
+        awsAccessKeyId?: string;
+        awsSecretAccessKey?: string;
+        // AWS profile to use with the default provider chain, e.g. an SSO profile
+        awsProfile?: string;
+        // ARN of a role to assume using the resolved credentials
+        awsRoleArn?: string;
+        // Custom endpoint for S3 compatible storages, e.g. MinIO, Cloudflare R2 or Ceph
+        awsEndpoint?: string;
+        // Use path-style addressing, i.e. `<endpoint>/<bucket>/<key>`, often required by S3 compatible storages
+        // Default to `false`
+        awsForcePathStyle?: boolean;
+        // Root path in the bucket under which the projects are stored
+        // Default to `projects`
+        rootPath?: string;
+      }
+    | {
+        type: "local";
+        // Path of the directory in which the artifacts will be stored
+        path: string;
+      };
+  // Compression applied to the artifacts when pushed to the storage
+  // Pulled artifacts are transparently decompressed, whatever the configured compression
+  // Default to `none`
+  compression?: "none" | "gzip" | "brotli";
+  // Client-side encryption of the artifacts pushed to the storage, using AES-256-GCM
+  // The key is 32 bytes encoded in hex or base64, e.g. generated with `openssl rand -hex 32`, exactly one source of the key must be provided
+  // Pulled artifacts are transparently decrypted, artifacts pushed without encryption remain readable
+  // Only the artifacts are encrypted, their metadata, e.g. the pusher, the git commit and the contract names, and their signatures remain in plain text
+  // If not provided, the artifacts are pushed without encryption
+  encryption?: {
+    // Name of the environment variable holding the key
+    keyEnvVar?: string;
+    // Path of the file holding the key
+    keyPath?: string;
+  };
+  // Signing of the pushed artifacts and verification of the pulled ones
+  signing?: {
+    // Path to the PEM encoded private key used to sign the pushed artifacts and tags, e.g. an ed25519 key
+    // If not provided, the artifacts are pushed without signature
+    privateKeyPath?: string;
+    // PEM encoded public keys trusted to sign the artifacts
+    // If provided, the signatures of the pulled artifacts are verified
+    trustedPublicKeys?: string[];
+    // Behaviour when a pulled artifact is unsigned or badly signed, either discarded or only reported
+    // Default to `refuse`
+    onInvalidSignature?: "refuse" | "warn";
   };
   // If enabled, all tasks are running with activated debug mode
   // Default to `false`
   debug?: boolean;
 };
 
-const SokoHardhatConfig = z.object({
-  project: z.string().min(1),
-  pulledArtifactsPath: z.string().default(".soko"),
-  typingsPath: z.string().default(".soko-typings"),
-  storageConfiguration: z.object({
-    type: z.literal("aws"),
-    awsRegion: z.string().min(1),
-    awsBucketName: z.string().min(1),
-    awsAccessKeyId: z.string().min(1),
-    awsSecretAccessKey: z.string().min(1),
-  }),
-  debug: z.boolean().default(false),
-});
+const SokoHardhatConfig = z
+  .object({
+    project: z.string().min(1),
+    pulledArtifactsPath: z.string().default(".soko"),
+    typingsPath: z.string().default(".soko-typings"),
+    storageConfiguration: z.discriminatedUnion("type", [
+      z.object({
+        type: z.literal("aws"),
+        awsRegion: z.string().min(1),
+        awsBucketName: z.string().min(1),
+        awsAccessKeyId: z.string().min(1).optional(),
+        awsSecretAccessKey: z.string().min(1).optional(),
+        awsProfile: z.string().min(1).optional(),
+        awsRoleArn: z.string().min(1).optional(),
+        awsEndpoint: z.string().url().optional(),
+        awsForcePathStyle: z.boolean().default(false),
+        rootPath: z.string().min(1).optional(),
+      }),
+      z.object({
+        type: z.literal("local"),
+        path: z.string().min(1),
+      }),
+    ]),
+    compression: z.enum(["none", "gzip", "brotli"]).default("none"),
+    encryption: z
+      .object({
+        keyEnvVar: z.string().min(1).optional(),
+        keyPath: z.string().min(1).optional(),
+      })
+      .optional(),
+    signing: z
+      .object({
+        privateKeyPath: z.string().min(1).optional(),
+        trustedPublicKeys: z.array(z.string().min(1)).default([]),
+        onInvalidSignature: z.enum(["refuse", "warn"]).default("refuse"),
+      })
+      .default({}),
+    debug: z.boolean().default(false),
+  })
+  .superRefine((config, ctx) => {
+    if (
+      config.storageConfiguration.type === "aws" &&
+      Boolean(config.storageConfiguration.awsAccessKeyId) !==
+        Boolean(config.storageConfiguration.awsSecretAccessKey)
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["storageConfiguration"],
+        message:
+          "`awsAccessKeyId` and `awsSecretAccessKey` must be provided together",
+      });
+    }
+    if (
+      config.encryption &&
+      Boolean(config.encryption.keyEnvVar) ===
+        Boolean(config.encryption.keyPath)
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["encryption"],
+        message: "Exactly one of `keyEnvVar` and `keyPath` must be provided",
+      });
+    }
+  });
 
 declare module "hardhat/types/config" {
   export interface HardhatUserConfig {
@@ -83,6 +208,97 @@ extendConfig(
   },
 );
 
+function createStorageProvider(
+  sokoConfig: z.infer<typeof SokoHardhatConfig>,
+): StorageProvider {
+  const storageConfiguration = sokoConfig.storageConfiguration;
+  if (storageConfiguration.type === "local") {
+    return new LocalDirectoryProvider({
+      path: storageConfiguration.path,
+      compression: sokoConfig.compression,
+      encryption: sokoConfig.encryption,
+    });
+  }
+  return new S3BucketProvider({
+    bucketName: storageConfiguration.awsBucketName,
+    bucketRegion: storageConfiguration.awsRegion,
+    accessKeyId: storageConfiguration.awsAccessKeyId,
+    secretAccessKey: storageConfiguration.awsSecretAccessKey,
+    profile: storageConfiguration.awsProfile,
+    roleArn: storageConfiguration.awsRoleArn,
+    endpoint: storageConfiguration.awsEndpoint,
+    forcePathStyle: storageConfiguration.awsForcePathStyle,
+    rootPath: storageConfiguration.rootPath,
+    compression: sokoConfig.compression,
+    encryption: sokoConfig.encryption,
+  });
+}
+
+/**
+ * Parse an artifact reference formatted as `[project:]<tag or ID>`, the project defaults to the configured one
+ */
+function parseArtifactReference(
+  reference: string,
+  defaultProject: string,
+): { project: string; tagOrId: string } {
+  const separatorIndex = reference.indexOf(":");
+  if (separatorIndex === -1) {
+    return { project: defaultProject, tagOrId: reference };
+  }
+  return {
+    project: reference.substring(0, separatorIndex),
+    tagOrId: reference.substring(separatorIndex + 1),
+  };
+}
+
+/**
+ * Resolve the tag or the ID identifying an artifact, exactly one of them must be given
+ * @returns The tag or the ID, or `undefined` once the invalid parameters are logged
+ */
+function resolveTagOrId(params: {
+  id?: string;
+  tag?: string;
+}): string | undefined {
+  if (params.id && params.tag) {
+    console.error(
+      LOG_COLORS.error,
+      "❌ The ID and tag parameters can not be used together",
+    );
+    return undefined;
+  }
+  const tagOrId = params.id || params.tag;
+  if (!tagOrId) {
+    console.error(
+      LOG_COLORS.error,
+      "❌ The artifact must be identified by a tag or an ID",
+    );
+  }
+  return tagOrId;
+}
+
+function logDeletionResult(
+  result: { remoteKeys: string[]; localPaths: string[] },
+  dryRun: boolean,
+) {
+  const verb = dryRun ? "would be" : "have been";
+  console.log(
+    LOG_COLORS.log,
+    `\nThe following keys ${verb} removed from the storage:`,
+  );
+  result.remoteKeys.forEach((key) => {
+    console.log(LOG_COLORS.log, ` - ${key}`);
+  });
+  if (result.localPaths.length > 0) {
+    console.log(
+      LOG_COLORS.log,
+      `\nThe following pulled files ${verb} removed:`,
+    );
+    result.localPaths.forEach((path) => {
+      console.log(LOG_COLORS.log, ` - ${path}`);
+    });
+  }
+}
+
 const sokoScope = scope("soko", "Soko Hardhat tasks");
 
 sokoScope
@@ -173,12 +389,7 @@ Already downloaded artifacts are not downloaded again by default, enable the for
       );
     }
 
-    const storageProvider = new S3BucketProvider({
-      bucketName: sokoConfig.storageConfiguration.awsBucketName,
-      bucketRegion: sokoConfig.storageConfiguration.awsRegion,
-      accessKeyId: sokoConfig.storageConfiguration.awsAccessKeyId,
-      secretAccessKey: sokoConfig.storageConfiguration.awsSecretAccessKey,
-    });
+    const storageProvider = createStorageProvider(sokoConfig);
 
     const localProvider = new LocalStorageProvider(
       sokoConfig.pulledArtifactsPath,
@@ -210,6 +421,10 @@ Already downloaded artifacts are not downloaded again by default, enable the for
         {
           debug: optsParsingResult.data.debug,
           force: optsParsingResult.data.force,
+          signatureVerification:
+            sokoConfig.signing.trustedPublicKeys.length > 0
+              ? sokoConfig.signing
+              : undefined,
         },
         localProvider,
         storageProvider,
@@ -265,6 +480,15 @@ Already downloaded artifacts are not downloaded again by default, enable the for
           console.error(LOG_COLORS.success, ` - ${id}`);
         });
       }
+      if (pullResult.value.unverifiableTags.length > 0) {
+        console.error(
+          LOG_COLORS.warn,
+          `\n${pullResult.value.unverifiableTags.length} pulled tags could not be verified, the storage does not record the ID they point to:`,
+        );
+        pullResult.value.unverifiableTags.forEach((tag) => {
+          console.error(LOG_COLORS.warn, ` - ${tag}`);
+        });
+      }
       if (pullResult.value.failedTags.length > 0) {
         console.error(
           LOG_COLORS.error,
@@ -301,6 +525,8 @@ If a tag is provided, the artifact will also be identified by it:
 
 If the provided tag already exists in the storage, the push will be aborted unless the force flag is enabled.
 
+If a signing key is configured, the artifact and its tag are signed.
+
 `,
   )
   .addParam("artifactPath", "The compilation artifact path to push")
@@ -336,12 +562,7 @@ If the provided tag already exists in the storage, the push will be aborted unle
       return;
     }
 
-    const storageProvider = new S3BucketProvider({
-      bucketName: sokoConfig.storageConfiguration.awsBucketName,
-      bucketRegion: sokoConfig.storageConfiguration.awsRegion,
-      accessKeyId: sokoConfig.storageConfiguration.awsAccessKeyId,
-      secretAccessKey: sokoConfig.storageConfiguration.awsSecretAccessKey,
-    });
+    const storageProvider = createStorageProvider(sokoConfig);
 
     const localProvider = new LocalStorageProvider(
       sokoConfig.pulledArtifactsPath,
@@ -374,6 +595,7 @@ If the provided tag already exists in the storage, the push will be aborted unle
         {
           debug: optsParsingResult.data.debug,
           force: optsParsingResult.data.force,
+          signingKeyPath: sokoConfig.signing.privateKeyPath,
         },
         storageProvider,
       ),
@@ -400,14 +622,26 @@ If the provided tag already exists in the storage, the push will be aborted unle
   });
 
 sokoScope
-  .task("typings", "Generate typings based on the existing artifacts.")
+  .task("tag", "Tag an artifact already pushed to the storage.")
   .addFlag(
     "aa",
-    `Fake flag - Task description: Generate typings based on the existing artifacts.
-The typings will be generated in the configured typings path.
+    `Fake flag - Task description: Tag an artifact already pushed to the storage.
+
+The artifact is identified by its ID in the configured project, it is not uploaded again
+  npx hardhat soko tag --id dcauXtavGLxC --tag v1.2.3
+
+If the provided tag already exists in the storage, the tagging will be aborted unless the force flag is enabled, the tag is then moved to the provided ID.
+
+If a signing key is configured, the tag is signed.
 
 `,
   )
+  .addParam("id", "The ID of the artifact to tag")
+  .addParam("tag", "The tag to attach to the artifact")
+  .addFlag(
+    "force",
+    "Force the tagging even if the tag already exists in the storage, moving it to the provided ID",
+  )
   .addFlag("debug", "Enable debug mode")
   .setAction(async (opts, hre) => {
     const sokoConfig = hre.config.soko;
@@ -417,70 +651,78 @@ The typings will be generated in the configured typings path.
       return;
     }
 
-    const parsingResult = z
+    const optsParsingResult = z
       .object({
+        id: z.string().min(1),
+        tag: z.string().min(1),
+        force: z.boolean().default(false),
         debug: z.boolean().default(sokoConfig.debug),
       })
       .safeParse(opts);
 
-    if (!parsingResult.success) {
+    if (!optsParsingResult.success) {
       console.error(LOG_COLORS.error, "❌ Invalid arguments");
       if (sokoConfig.debug || opts.debug) {
-        console.error(parsingResult.error);
+        console.error(optsParsingResult.error);
       }
       process.exitCode = 1;
       return;
     }
 
-    console.log(LOG_COLORS.log, "\nStarting typings generation\n");
+    const storageProvider = createStorageProvider(sokoConfig);
 
-    const localProvider = new LocalStorageProvider(
-      sokoConfig.pulledArtifactsPath,
+    const tagResult = await toAsyncResult(
+      tagArtifact(
+        sokoConfig.project,
+        optsParsingResult.data.id,
+        optsParsingResult.data.tag,
+        {
+          debug: optsParsingResult.data.debug,
+          force: optsParsingResult.data.force,
+          signingKeyPath: sokoConfig.signing.privateKeyPath,
+        },
+        storageProvider,
+      ),
+      { debug: optsParsingResult.data.debug },
     );
-    const ensureResult = await toAsyncResult(localProvider.ensureSetup(), {
-      debug: parsingResult.data.debug,
-    });
-    if (!ensureResult.success) {
-      if (ensureResult.error instanceof ScriptError) {
-        console.log(LOG_COLORS.error, "❌ ", ensureResult.error.message);
+    if (!tagResult.success) {
+      if (tagResult.error instanceof ScriptError) {
+        console.log(LOG_COLORS.error, "❌ ", tagResult.error.message);
         process.exitCode = 1;
         return;
       }
       console.log(
         LOG_COLORS.error,
         "❌ An unexpected error occurred: ",
-        ensureResult.error,
+        tagResult.error,
       );
       process.exitCode = 1;
       return;
     }
-
-    await generateArtifactsSummariesAndTypings(
-      sokoConfig.typingsPath,
-      false,
-      {
-        debug: parsingResult.data.debug,
-      },
-      localProvider,
-    )
-      .then(() => {
-        console.log(LOG_COLORS.success, "\nTypings generated successfully\n");
-      })
-      .catch((err) => {
-        if (err instanceof ScriptError) {
-          console.log(LOG_COLORS.error, "❌ ", err.message);
-          process.exitCode = 1;
-          return;
-        }
-        console.log(LOG_COLORS.error, "❌ An unexpected error occurred: ", err);
-        process.exitCode = 1;
-      });
+    console.log(
+      LOG_COLORS.success,
+      `\nArtifact "${sokoConfig.project}:${optsParsingResult.data.id}" tagged successfully with "${optsParsingResult.data.tag}"`,
+    );
   });
 
 sokoScope
-  .task(
-    "list",
-    "List the artifacts that have been pulled with their associated projects.",
+  .task("untag", "Remove a tag from the storage.")
+  .addFlag(
+    "aa",
+    `Fake flag - Task description: Remove a tag from the storage.
+
+The tag is removed from the storage of the configured project and from the pulled artifacts, the artifact ID it points to is kept
+  npx hardhat soko untag --tag v1.2.3
+
+The keys that would be removed can be listed without removing anything
+  npx hardhat soko untag --tag v1.2.3 --dry-run
+
+`,
+  )
+  .addParam("tag", "The tag to remove")
+  .addFlag(
+    "dryRun",
+    "List the keys that would be removed without removing anything",
   )
   .addFlag("debug", "Enable debug mode")
   .setAction(async (opts, hre) => {
@@ -491,94 +733,90 @@ sokoScope
       return;
     }
 
-    const parsingResult = z
+    const optsParsingResult = z
       .object({
+        tag: z.string().min(1),
+        dryRun: z.boolean().default(false),
         debug: z.boolean().default(sokoConfig.debug),
       })
       .safeParse(opts);
 
-    if (!parsingResult.success) {
+    if (!optsParsingResult.success) {
       console.error(LOG_COLORS.error, "❌ Invalid arguments");
       if (sokoConfig.debug || opts.debug) {
-        console.error(parsingResult.error);
+        console.error(optsParsingResult.error);
       }
       process.exitCode = 1;
       return;
     }
 
+    const storageProvider = createStorageProvider(sokoConfig);
+
     const localProvider = new LocalStorageProvider(
       sokoConfig.pulledArtifactsPath,
     );
 
-    const setupResult = await toAsyncResult(localProvider.ensureSetup(), {
-      debug: parsingResult.data.debug,
-    });
-    if (!setupResult.success) {
-      if (setupResult.error instanceof ScriptError) {
-        console.log(LOG_COLORS.error, "❌ ", setupResult.error.message);
+    const deletionResult = await toAsyncResult(
+      untagArtifact(
+        sokoConfig.project,
+        optsParsingResult.data.tag,
+        {
+          dryRun: optsParsingResult.data.dryRun,
+          debug: optsParsingResult.data.debug,
+        },
+        localProvider,
+        storageProvider,
+      ),
+      { debug: optsParsingResult.data.debug },
+    );
+    if (!deletionResult.success) {
+      if (deletionResult.error instanceof ScriptError) {
+        console.log(LOG_COLORS.error, "❌ ", deletionResult.error.message);
         process.exitCode = 1;
         return;
       }
       console.log(
         LOG_COLORS.error,
         "❌ An unexpected error occurred: ",
-        setupResult.error,
+        deletionResult.error,
       );
       process.exitCode = 1;
       return;
     }
 
-    const structuredDataResult = await toAsyncResult(
-      generateStructuredDataForArtifacts(localProvider, {
-        debug: parsingResult.data.debug,
-      }),
-      { debug: parsingResult.data.debug },
-    );
-    if (!structuredDataResult.success) {
-      if (structuredDataResult.error instanceof ScriptError) {
-        console.log(
-          LOG_COLORS.error,
-          "❌ ",
-          structuredDataResult.error.message,
-        );
-        process.exitCode = 1;
-        return;
-      }
+    logDeletionResult(deletionResult.value, optsParsingResult.data.dryRun);
+    if (!optsParsingResult.data.dryRun) {
       console.log(
-        LOG_COLORS.error,
-        "❌ An unexpected error occurred: ",
-        structuredDataResult.error,
+        LOG_COLORS.success,
+        `\nTag "${sokoConfig.project}:${optsParsingResult.data.tag}" removed successfully`,
       );
-      process.exitCode = 1;
-      return;
     }
-
-    if (structuredDataResult.value.length === 0) {
-      console.error(LOG_COLORS.warn, "\nNo artifacts found");
-      return;
-    }
-
-    console.table(structuredDataResult.value, [
-      "Project",
-      "Tag",
-      "ID",
-      "Pull date",
-    ]);
   });
 
 sokoScope
-  .task(
-    "diff",
-    "Compare a local compilation artifacts with an existing release.",
+  .task("delete", "Delete an artifact from the storage.")
+  .addFlag(
+    "aa",
+    `Fake flag - Task description: Delete an artifact from the storage.
+
+The artifact is identified by its ID, it is deleted from the storage of the configured project and from the pulled artifacts
+  npx hardhat soko delete --id dcauXtavGLxC
+
+The deletion is refused if tags still point to the ID unless the force flag is enabled, the tags are kept in any case.
+
+The keys that would be removed can be listed without removing anything
+  npx hardhat soko delete --id dcauXtavGLxC --dry-run
+
+`,
   )
-  .addParam("artifactPath", "The compilation artifact path to compare")
-  .addOptionalParam(
-    "id",
-    "The ID of the artifact to compare with, can not be used with the `tag` parameter",
+  .addParam("id", "The ID of the artifact to delete")
+  .addFlag(
+    "force",
+    "Force the deletion even if tags still point to the artifact, the tags are kept",
   )
-  .addOptionalParam(
-    "tag",
-    "The tag of the artifact to compare with, can not be used with the `id` parameter",
+  .addFlag(
+    "dryRun",
+    "List the keys that would be removed without removing anything",
   )
   .addFlag("debug", "Enable debug mode")
   .setAction(async (opts, hre) => {
@@ -589,117 +827,1355 @@ sokoScope
       return;
     }
 
-    const paramParsingResult = z
+    const optsParsingResult = z
       .object({
-        artifactPath: z.string().min(1),
-        id: z.string().optional(),
-        tag: z.string().optional(),
+        id: z.string().min(1),
+        force: z.boolean().default(false),
+        dryRun: z.boolean().default(false),
         debug: z.boolean().default(sokoConfig.debug),
       })
       .safeParse(opts);
-    if (!paramParsingResult.success) {
+
+    if (!optsParsingResult.success) {
       console.error(LOG_COLORS.error, "❌ Invalid arguments");
       if (sokoConfig.debug || opts.debug) {
-        console.error(paramParsingResult.error);
+        console.error(optsParsingResult.error);
       }
       process.exitCode = 1;
       return;
     }
-    if (paramParsingResult.data.id && paramParsingResult.data.tag) {
-      console.error(
-        LOG_COLORS.error,
-        "❌ The ID and tag parameters can not be used together",
-      );
-      process.exitCode = 1;
-      return;
-    }
-
-    if (!paramParsingResult.data.id && !paramParsingResult.data.tag) {
-      console.error(
-        LOG_COLORS.error,
-        "❌ The artifact must be identified by a tag or an ID",
-      );
-      process.exitCode = 1;
-      return;
-    }
-
-    const tagOrId = paramParsingResult.data.id || paramParsingResult.data.tag;
-    if (!tagOrId) {
-      console.error(
-        LOG_COLORS.error,
-        "❌ The artifact must be identified by a tag or an ID",
-      );
-      process.exitCode = 1;
-      return;
-    }
 
-    console.log(
-      LOG_COLORS.log,
-      `\nComparing the current compilation with the "${sokoConfig.project}:${tagOrId}" artifact`,
-    );
+    const storageProvider = createStorageProvider(sokoConfig);
 
     const localProvider = new LocalStorageProvider(
       sokoConfig.pulledArtifactsPath,
     );
 
-    const ensureResult = await toAsyncResult(
-      localProvider.ensureProjectSetup(sokoConfig.project),
-      { debug: paramParsingResult.data.debug },
-    );
-    if (!ensureResult.success) {
-      if (ensureResult.error instanceof ScriptError) {
-        console.log(LOG_COLORS.error, "❌ ", ensureResult.error.message);
-        process.exitCode = 1;
-        return;
-      }
-      console.log(
-        LOG_COLORS.error,
-        "❌ An unexpected error occurred: ",
-        ensureResult.error,
-      );
-      process.exitCode = 1;
-      return;
-    }
-
-    const differencesResult = await toAsyncResult(
-      generateDiffWithTargetRelease(
-        paramParsingResult.data.artifactPath,
-        { project: sokoConfig.project, tagOrId },
+    const deletionResult = await toAsyncResult(
+      deleteArtifact(
+        sokoConfig.project,
+        optsParsingResult.data.id,
         {
-          debug: paramParsingResult.data.debug,
+          force: optsParsingResult.data.force,
+          dryRun: optsParsingResult.data.dryRun,
+          debug: optsParsingResult.data.debug,
         },
         localProvider,
+        storageProvider,
       ),
+      { debug: optsParsingResult.data.debug },
     );
-    if (!differencesResult.success) {
-      if (differencesResult.error instanceof ScriptError) {
-        console.log(LOG_COLORS.error, "❌ ", differencesResult.error.message);
+    if (!deletionResult.success) {
+      if (deletionResult.error instanceof ScriptError) {
+        console.log(LOG_COLORS.error, "❌ ", deletionResult.error.message);
         process.exitCode = 1;
         return;
       }
       console.log(
         LOG_COLORS.error,
         "❌ An unexpected error occurred: ",
-        differencesResult.error,
+        deletionResult.error,
       );
       process.exitCode = 1;
       return;
     }
 
-    if (differencesResult.value.length === 0) {
-      console.log(LOG_COLORS.success, "\nNo differences found");
-      return;
-    }
-
-    console.log(LOG_COLORS.success, "\nDifferences found:");
-    for (const difference of differencesResult.value) {
+    logDeletionResult(deletionResult.value, optsParsingResult.data.dryRun);
+    if (!optsParsingResult.data.dryRun) {
       console.log(
         LOG_COLORS.success,
-        ` - ${difference.name} (${difference.path}): ${difference.status}`,
+        `\nArtifact "${sokoConfig.project}:${optsParsingResult.data.id}" deleted successfully`,
       );
     }
   });
 
+sokoScope
+  .task("prune", "Remove pulled artifacts from the local Soko directory.")
+  .addFlag(
+    "aa",
+    `Fake flag - Task description: Remove pulled artifacts from the local Soko directory.
+
+The artifacts pulled more than a duration ago can be removed, the duration is expressed in minutes (m), hours (h), days (d) or weeks (w)
+  npx hardhat soko prune --older-than 30d
+
+Only the most recently pulled tags of each project can be kept
+  npx hardhat soko prune --keep 5
+
+The artifacts that are no longer present in the storage can be removed
+  npx hardhat soko prune --remote-missing
+
+The criteria can be combined, an artifact is removed as soon as it matches one of them. The pruning can be restricted to a project.
+  npx hardhat soko prune --older-than 2w --keep 3 --project another-project
+
+The artifacts that would be removed can be listed without removing anything using the dry run flag. Typings are generated again once artifacts have been removed.
+
+`,
+  )
+  .addOptionalParam(
+    "olderThan",
+    "Remove the artifacts pulled more than this duration ago, e.g. 30d",
+  )
+  .addOptionalParam(
+    "keep",
+    "Keep only this number of most recently pulled tags per project",
+  )
+  .addFlag(
+    "remoteMissing",
+    "Remove the artifacts that are no longer present in the storage",
+  )
+  .addOptionalParam(
+    "project",
+    "The project to prune, defaults to all the pulled projects",
+  )
+  .addFlag(
+    "dryRun",
+    "List the artifacts that would be removed without removing anything",
+  )
+  .addFlag("debug", "Enable debug mode")
+  .setAction(async (opts, hre) => {
+    const sokoConfig = hre.config.soko;
+    if (!sokoConfig) {
+      console.error("❌ Soko is not configured.");
+      process.exitCode = 1;
+      return;
+    }
+
+    const optsParsingResult = z
+      .object({
+        olderThan: z
+          .string()
+          .transform((value, ctx) => {
+            const duration = parseDuration(value);
+            if (duration === undefined) {
+              ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: "Invalid duration, expected e.g. 45m, 12h, 30d or 2w",
+              });
+              return z.NEVER;
+            }
+            return duration;
+          })
+          .optional(),
+        keep: z.coerce.number().int().min(0).optional(),
+        remoteMissing: z.boolean().default(false),
+        project: z.string().optional(),
+        dryRun: z.boolean().default(false),
+        debug: z.boolean().default(sokoConfig.debug),
+      })
+      .safeParse(opts);
+
+    if (!optsParsingResult.success) {
+      console.error(LOG_COLORS.error, "❌ Invalid arguments");
+      if (sokoConfig.debug || opts.debug) {
+        console.error(optsParsingResult.error);
+      }
+      process.exitCode = 1;
+      return;
+    }
+
+    if (
+      optsParsingResult.data.olderThan === undefined &&
+      optsParsingResult.data.keep === undefined &&
+      !optsParsingResult.data.remoteMissing
+    ) {
+      console.error(
+        LOG_COLORS.error,
+        "❌ At least one of the `older-than`, `keep` or `remote-missing` parameters must be provided",
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    const localProvider = new LocalStorageProvider(
+      sokoConfig.pulledArtifactsPath,
+    );
+    const ensureResult = await toAsyncResult(localProvider.ensureSetup(), {
+      debug: optsParsingResult.data.debug,
+    });
+    if (!ensureResult.success) {
+      console.log(
+        LOG_COLORS.error,
+        "❌ An unexpected error occurred: ",
+        ensureResult.error,
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    const pruneResult = await toAsyncResult(
+      prune(
+        {
+          olderThan: optsParsingResult.data.olderThan,
+          keep: optsParsingResult.data.keep,
+          remoteMissing: optsParsingResult.data.remoteMissing,
+        },
+        {
+          project: optsParsingResult.data.project,
+          dryRun: optsParsingResult.data.dryRun,
+          debug: optsParsingResult.data.debug,
+        },
+        localProvider,
+        optsParsingResult.data.remoteMissing
+          ? createStorageProvider(sokoConfig)
+          : undefined,
+      ),
+      { debug: optsParsingResult.data.debug },
+    );
+    if (!pruneResult.success) {
+      if (pruneResult.error instanceof ScriptError) {
+        console.log(LOG_COLORS.error, "❌ ", pruneResult.error.message);
+        process.exitCode = 1;
+        return;
+      }
+      console.log(
+        LOG_COLORS.error,
+        "❌ An unexpected error occurred: ",
+        pruneResult.error,
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    const { prunedArtifacts, reclaimedBytes } = pruneResult.value;
+    if (prunedArtifacts.length === 0) {
+      console.log(LOG_COLORS.success, "\nNothing to prune");
+      return;
+    }
+
+    console.log(
+      LOG_COLORS.log,
+      `\n${optsParsingResult.data.dryRun ? "The following artifacts would be removed" : "Removed artifacts"}:`,
+    );
+    for (const artifact of prunedArtifacts) {
+      console.log(
+        LOG_COLORS.log,
+        ` - ${artifact.project}:${artifact.value} (${artifact.type === "tag" ? "tag" : "ID"}, ${artifact.reason})`,
+      );
+    }
+
+    if (optsParsingResult.data.dryRun) {
+      console.log(
+        LOG_COLORS.success,
+        `\n${formatSize(reclaimedBytes)} would be reclaimed`,
+      );
+      return;
+    }
+    console.log(
+      LOG_COLORS.success,
+      `\n${formatSize(reclaimedBytes)} reclaimed`,
+    );
+
+    // The typings must not reference the removed tags anymore
+    await generateArtifactsSummariesAndTypings(
+      sokoConfig.typingsPath,
+      false,
+      {
+        debug: optsParsingResult.data.debug,
+      },
+      localProvider,
+    )
+      .then(() => {
+        console.log(LOG_COLORS.success, "\nTypings generated successfully\n");
+      })
+      .catch((err) => {
+        if (err instanceof ScriptError) {
+          console.log(LOG_COLORS.error, "❌ ", err.message);
+          process.exitCode = 1;
+          return;
+        }
+        console.log(LOG_COLORS.error, "❌ An unexpected error occurred: ", err);
+        process.exitCode = 1;
+      });
+  });
+
+sokoScope
+  .task("verify", "Verify the integrity of the pulled artifacts.")
+  .addFlag(
+    "aa",
+    `Fake flag - Task description: Verify the integrity of the pulled artifacts.
+
+The content of every pulled ID is hashed again and compared with the ID, the content of every pulled tag must match an ID, either pulled or present in the storage.
+  npx hardhat soko verify
+
+The verification can be restricted to a project, by default all the pulled projects are verified
+  npx hardhat soko verify --project another-project
+
+Corrupted and orphaned files are reported and the task fails, they can be replaced by pulling them again with the force flag.
+
+`,
+  )
+  .addOptionalParam(
+    "project",
+    "The project to verify, defaults to all the pulled projects",
+  )
+  .addFlag("debug", "Enable debug mode")
+  .setAction(async (opts, hre) => {
+    const sokoConfig = hre.config.soko;
+    if (!sokoConfig) {
+      console.error("❌ Soko is not configured.");
+      process.exitCode = 1;
+      return;
+    }
+
+    const optsParsingResult = z
+      .object({
+        project: z.string().optional(),
+        debug: z.boolean().default(sokoConfig.debug),
+      })
+      .safeParse(opts);
+
+    if (!optsParsingResult.success) {
+      console.error(LOG_COLORS.error, "❌ Invalid arguments");
+      if (sokoConfig.debug || opts.debug) {
+        console.error(optsParsingResult.error);
+      }
+      process.exitCode = 1;
+      return;
+    }
+
+    const localProvider = new LocalStorageProvider(
+      sokoConfig.pulledArtifactsPath,
+    );
+    const ensureResult = await toAsyncResult(localProvider.ensureSetup(), {
+      debug: optsParsingResult.data.debug,
+    });
+    if (!ensureResult.success) {
+      console.log(
+        LOG_COLORS.error,
+        "❌ An unexpected error occurred: ",
+        ensureResult.error,
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    const verificationResult = await toAsyncResult(
+      verifyPulledArtifacts(
+        optsParsingResult.data,
+        localProvider,
+        createStorageProvider(sokoConfig),
+      ),
+      { debug: optsParsingResult.data.debug },
+    );
+    if (!verificationResult.success) {
+      if (verificationResult.error instanceof ScriptError) {
+        console.log(LOG_COLORS.error, "❌ ", verificationResult.error.message);
+        process.exitCode = 1;
+        return;
+      }
+      console.log(
+        LOG_COLORS.error,
+        "❌ An unexpected error occurred: ",
+        verificationResult.error,
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    const { verifiedFiles, issues } = verificationResult.value;
+    if (issues.length === 0) {
+      console.log(
+        LOG_COLORS.success,
+        `\n${verifiedFiles} files verified, no integrity issues found`,
+      );
+      return;
+    }
+
+    for (const kind of ["corrupted", "orphaned"] as const) {
+      const issuesOfKind = issues.filter((issue) => issue.kind === kind);
+      if (issuesOfKind.length === 0) continue;
+      console.log(
+        LOG_COLORS.error,
+        `\n❌ ${issuesOfKind.length} ${kind} files:`,
+      );
+      for (const issue of issuesOfKind) {
+        console.log(LOG_COLORS.error, ` - ${issue.path}: ${issue.reason}`);
+      }
+    }
+    console.log(
+      LOG_COLORS.warn,
+      `\n${issues.length} integrity issues found out of ${verifiedFiles} files. The affected artifacts can be pulled again using the force flag.`,
+    );
+    process.exitCode = 1;
+  });
+
+sokoScope
+  .task("typings", "Generate typings based on the existing artifacts.")
+  .addFlag(
+    "aa",
+    `Fake flag - Task description: Generate typings based on the existing artifacts.
+The typings will be generated in the configured typings path.
+
+`,
+  )
+  .addFlag("debug", "Enable debug mode")
+  .setAction(async (opts, hre) => {
+    const sokoConfig = hre.config.soko;
+    if (!sokoConfig) {
+      console.error("❌ Soko is not configured.");
+      process.exitCode = 1;
+      return;
+    }
+
+    const parsingResult = z
+      .object({
+        debug: z.boolean().default(sokoConfig.debug),
+      })
+      .safeParse(opts);
+
+    if (!parsingResult.success) {
+      console.error(LOG_COLORS.error, "❌ Invalid arguments");
+      if (sokoConfig.debug || opts.debug) {
+        console.error(parsingResult.error);
+      }
+      process.exitCode = 1;
+      return;
+    }
+
+    console.log(LOG_COLORS.log, "\nStarting typings generation\n");
+
+    const localProvider = new LocalStorageProvider(
+      sokoConfig.pulledArtifactsPath,
+    );
+    const ensureResult = await toAsyncResult(localProvider.ensureSetup(), {
+      debug: parsingResult.data.debug,
+    });
+    if (!ensureResult.success) {
+      if (ensureResult.error instanceof ScriptError) {
+        console.log(LOG_COLORS.error, "❌ ", ensureResult.error.message);
+        process.exitCode = 1;
+        return;
+      }
+      console.log(
+        LOG_COLORS.error,
+        "❌ An unexpected error occurred: ",
+        ensureResult.error,
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    await generateArtifactsSummariesAndTypings(
+      sokoConfig.typingsPath,
+      false,
+      {
+        debug: parsingResult.data.debug,
+      },
+      localProvider,
+    )
+      .then(() => {
+        console.log(LOG_COLORS.success, "\nTypings generated successfully\n");
+      })
+      .catch((err) => {
+        if (err instanceof ScriptError) {
+          console.log(LOG_COLORS.error, "❌ ", err.message);
+          process.exitCode = 1;
+          return;
+        }
+        console.log(LOG_COLORS.error, "❌ An unexpected error occurred: ", err);
+        process.exitCode = 1;
+      });
+  });
+
+sokoScope
+  .task(
+    "list",
+    "List the pulled artifacts, or the ones in the storage, with their associated projects.",
+  )
+  .addFlag(
+    "aa",
+    `Fake flag - Task description: List the pulled artifacts, or the ones in the storage, with their associated projects.
+
+By default, the pulled artifacts of all projects are listed
+  npx hardhat soko list
+
+The artifacts in the storage can be listed without pulling them, the already pulled artifacts are marked
+  npx hardhat soko list --remote
+
+The listing can be restricted to a project, by default all the projects are listed
+  npx hardhat soko list --remote --project another-project
+
+
+`,
+  )
+  .addOptionalParam(
+    "project",
+    "The project to list the artifacts of, defaults to all projects",
+  )
+  .addFlag(
+    "remote",
+    "List the artifacts in the storage instead of the pulled artifacts",
+  )
+  .addFlag("debug", "Enable debug mode")
+  .setAction(async (opts, hre) => {
+    const sokoConfig = hre.config.soko;
+    if (!sokoConfig) {
+      console.error("❌ Soko is not configured.");
+      process.exitCode = 1;
+      return;
+    }
+
+    const parsingResult = z
+      .object({
+        project: z.string().optional(),
+        remote: z.boolean().default(false),
+        debug: z.boolean().default(sokoConfig.debug),
+      })
+      .safeParse(opts);
+
+    if (!parsingResult.success) {
+      console.error(LOG_COLORS.error, "❌ Invalid arguments");
+      if (sokoConfig.debug || opts.debug) {
+        console.error(parsingResult.error);
+      }
+      process.exitCode = 1;
+      return;
+    }
+
+    const localProvider = new LocalStorageProvider(
+      sokoConfig.pulledArtifactsPath,
+    );
+
+    const setupResult = await toAsyncResult(localProvider.ensureSetup(), {
+      debug: parsingResult.data.debug,
+    });
+    if (!setupResult.success) {
+      if (setupResult.error instanceof ScriptError) {
+        console.log(LOG_COLORS.error, "❌ ", setupResult.error.message);
+        process.exitCode = 1;
+        return;
+      }
+      console.log(
+        LOG_COLORS.error,
+        "❌ An unexpected error occurred: ",
+        setupResult.error,
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    const listingOpts = {
+      project: parsingResult.data.project,
+      debug: parsingResult.data.debug,
+    };
+    const structuredDataResult = await toAsyncResult<
+      Record<string, string | number>[]
+    >(
+      parsingResult.data.remote
+        ? generateStructuredDataForRemoteArtifacts(
+            localProvider,
+            createStorageProvider(sokoConfig),
+            listingOpts,
+          )
+        : generateStructuredDataForArtifacts(localProvider, listingOpts),
+      { debug: parsingResult.data.debug },
+    );
+    if (!structuredDataResult.success) {
+      if (structuredDataResult.error instanceof ScriptError) {
+        console.log(
+          LOG_COLORS.error,
+          "❌ ",
+          structuredDataResult.error.message,
+        );
+        process.exitCode = 1;
+        return;
+      }
+      console.log(
+        LOG_COLORS.error,
+        "❌ An unexpected error occurred: ",
+        structuredDataResult.error,
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    if (structuredDataResult.value.length === 0) {
+      console.error(LOG_COLORS.warn, "\nNo artifacts found");
+      return;
+    }
+
+    console.table(
+      structuredDataResult.value,
+      parsingResult.data.remote
+        ? REMOTE_ARTIFACT_LIST_COLUMNS
+        : ARTIFACT_LIST_COLUMNS,
+    );
+  });
+
+sokoScope
+  .task(
+    "diff",
+    "Compare a local compilation artifacts with an existing release.",
+  )
+  .addFlag(
+    "aa",
+    `Fake flag - Task description: Compare a local compilation artifacts, or another pulled artifact, with an existing release.
+
+The artifacts missing locally are pulled from the storage.
+  npx hardhat soko diff --artifact-path ./artifacts --tag v1.2.3
+  npx hardhat soko diff --artifact-path ./artifacts --id 123456
+
+Two pulled artifacts can be compared, the compared artifact is identified by a tag or an ID, optionally prefixed by its project
+  npx hardhat soko diff --artifact v1.3.0 --tag v1.2.0
+  npx hardhat soko diff --artifact another-project:123456 --tag v1.2.0
+
+The project of the artifact to compare with defaults to the configured one
+  npx hardhat soko diff --artifact v1.3.0 --tag v1.2.0 --project another-project
+
+The differences can be formatted as text, JSON or Markdown, and written to a file
+  npx hardhat soko diff --artifact-path ./artifacts --tag v1.2.3 --format markdown --output diff.md
+
+The task can fail if differences of some statuses are found, e.g. in order to gate a pipeline, the exit code is then 2 while it is 1 if the comparison fails
+  npx hardhat soko diff --artifact-path ./artifacts --tag v1.2.3 --fail-on changed,removed
+
+The CBOR encoded metadata of the bytecodes, appended or embedded in the code of a factory, can be ignored, only the executable code is then compared and the contracts whose only changes are in the metadata, e.g. a comment, are reported as metadata-only
+  npx hardhat soko diff --artifact-path ./artifacts --tag v1.2.3 --ignore-metadata --fail-on changed,removed
+
+The missing artifacts can be pulled into a temporary directory, removed once compared, instead of the pulled artifacts directory
+  npx hardhat soko diff --artifact-path ./artifacts --tag v1.2.3 --temporary-pull
+
+`,
+  )
+  .addOptionalParam(
+    "artifactPath",
+    "The compilation artifact path to compare, can not be used with the `artifact` parameter",
+  )
+  .addOptionalParam(
+    "artifact",
+    "The pulled artifact to compare, formatted as `[project:]<tag or ID>`, can not be used with the `artifactPath` parameter",
+  )
+  .addOptionalParam(
+    "project",
+    "The project of the artifact to compare with, defaults to the configured project",
+  )
+  .addOptionalParam(
+    "format",
+    "The format of the differences: `text`, `json` or `markdown`, defaults to `text`",
+  )
+  .addOptionalParam(
+    "output",
+    "The file in which the differences are written, defaults to the standard output",
+  )
+  .addOptionalParam(
+    "failOn",
+    "The statuses of differences failing the task, separated by commas, among `added`, `removed`, `changed` and `metadata-only`",
+  )
+  .addFlag(
+    "temporaryPull",
+    "Pull the missing artifacts into a temporary directory instead of the pulled artifacts directory",
+  )
+  .addFlag(
+    "ignoreMetadata",
+    "Compare the executable code only, the contracts whose only changes are in the metadata are reported as `metadata-only`",
+  )
+  .addOptionalParam(
+    "id",
+    "The ID of the artifact to compare with, can not be used with the `tag` parameter",
+  )
+  .addOptionalParam(
+    "tag",
+    "The tag of the artifact to compare with, can not be used with the `id` parameter",
+  )
+  .addFlag("debug", "Enable debug mode")
+  .setAction(async (opts, hre) => {
+    const sokoConfig = hre.config.soko;
+    if (!sokoConfig) {
+      console.error("❌ Soko is not configured.");
+      process.exitCode = 1;
+      return;
+    }
+
+    const paramParsingResult = z
+      .object({
+        artifactPath: z.string().min(1).optional(),
+        artifact: z.string().min(1).optional(),
+        project: z.string().min(1).default(sokoConfig.project),
+        id: z.string().optional(),
+        tag: z.string().optional(),
+        format: z.enum(DIFF_REPORT_FORMATS).default("text"),
+        output: z.string().min(1).optional(),
+        failOn: z
+          .string()
+          .optional()
+          .transform((statuses) =>
+            statuses
+              ?.split(",")
+              .map((status) => status.trim())
+              .filter((status) => status.length > 0),
+          )
+          .pipe(
+            z
+              .array(z.enum(["added", "removed", "changed", "metadata-only"]))
+              .default([]),
+          ),
+        ignoreMetadata: z.boolean().default(false),
+        temporaryPull: z.boolean().default(false),
+        debug: z.boolean().default(sokoConfig.debug),
+      })
+      .safeParse(opts);
+    if (!paramParsingResult.success) {
+      console.error(LOG_COLORS.error, "❌ Invalid arguments");
+      if (sokoConfig.debug || opts.debug) {
+        console.error(paramParsingResult.error);
+      }
+      process.exitCode = 1;
+      return;
+    }
+    const tagOrId = resolveTagOrId(paramParsingResult.data);
+    if (!tagOrId) {
+      process.exitCode = 1;
+      return;
+    }
+
+    const { artifactPath, artifact } = paramParsingResult.data;
+    if (Boolean(artifactPath) === Boolean(artifact)) {
+      console.error(
+        LOG_COLORS.error,
+        "❌ Exactly one of the artifact path and artifact parameters must be provided",
+      );
+      process.exitCode = 1;
+      return;
+    }
+    const targetArtifact = {
+      project: paramParsingResult.data.project,
+      tagOrId,
+    };
+    const comparedArtifact = artifact
+      ? parseArtifactReference(artifact, sokoConfig.project)
+      : undefined;
+
+    // The machine readable formats printed on the standard output are left alone, the logs and errors are then printed on the standard error
+    const log =
+      paramParsingResult.data.format === "text" ||
+      paramParsingResult.data.output
+        ? console.log
+        : console.error;
+    log(
+      LOG_COLORS.log,
+      comparedArtifact
+        ? `\nComparing the "${comparedArtifact.project}:${comparedArtifact.tagOrId}" artifact with the "${targetArtifact.project}:${tagOrId}" artifact`
+        : `\nComparing the current compilation with the "${targetArtifact.project}:${tagOrId}" artifact`,
+    );
+
+    const localProvider = new LocalStorageProvider(
+      sokoConfig.pulledArtifactsPath,
+    );
+
+    const ensureResult = await toAsyncResult(
+      localProvider.ensureProjectSetup(sokoConfig.project),
+      { debug: paramParsingResult.data.debug },
+    );
+    if (!ensureResult.success) {
+      if (ensureResult.error instanceof ScriptError) {
+        log(LOG_COLORS.error, "❌ ", ensureResult.error.message);
+        process.exitCode = 1;
+        return;
+      }
+      log(
+        LOG_COLORS.error,
+        "❌ An unexpected error occurred: ",
+        ensureResult.error,
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    const storageProvider = createStorageProvider(sokoConfig);
+    const diffOptions = {
+      debug: paramParsingResult.data.debug,
+      ignoreMetadata: paramParsingResult.data.ignoreMetadata,
+      temporaryPull: paramParsingResult.data.temporaryPull,
+      signatureVerification:
+        sokoConfig.signing.trustedPublicKeys.length > 0
+          ? sokoConfig.signing
+          : undefined,
+    };
+    const differencesResult = await toAsyncResult(
+      comparedArtifact
+        ? generateDiffBetweenArtifacts(
+            comparedArtifact,
+            targetArtifact,
+            diffOptions,
+            localProvider,
+            storageProvider,
+          )
+        : generateDiffWithTargetRelease(
+            artifactPath || "",
+            targetArtifact,
+            diffOptions,
+            localProvider,
+            storageProvider,
+          ),
+      { debug: paramParsingResult.data.debug },
+    );
+    if (!differencesResult.success) {
+      if (differencesResult.error instanceof ScriptError) {
+        log(LOG_COLORS.error, "❌ ", differencesResult.error.message);
+        process.exitCode = 1;
+        return;
+      }
+      log(
+        LOG_COLORS.error,
+        "❌ An unexpected error occurred: ",
+        differencesResult.error,
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    const report = createDiffReport(
+      comparedArtifact
+        ? { type: "artifact", ...comparedArtifact }
+        : { type: "compilation", artifactPath: artifactPath || "" },
+      targetArtifact,
+      differencesResult.value,
+    );
+    const formattedReport = formatDiffReport(
+      report,
+      paramParsingResult.data.format,
+    );
+    const { output, format, failOn } = paramParsingResult.data;
+    if (output) {
+      const writeResult = await toAsyncResult(
+        fs.writeFile(output, formattedReport),
+        { debug: paramParsingResult.data.debug },
+      );
+      if (!writeResult.success) {
+        console.error(
+          LOG_COLORS.error,
+          `❌ Unable to write the differences to "${output}": ${writeResult.error.message}`,
+        );
+        process.exitCode = 1;
+        return;
+      }
+      console.log(
+        LOG_COLORS.success,
+        `\n${report.differences.length} differences written to "${output}"`,
+      );
+    } else if (format === "text") {
+      console.log("");
+      for (const line of formattedReport.trimEnd().split("\n")) {
+        console.log(LOG_COLORS.success, line);
+      }
+    } else {
+      process.stdout.write(formattedReport);
+    }
+
+    const failingDifferences = report.differences.filter((difference) =>
+      failOn.includes(difference.status),
+    );
+    if (failingDifferences.length > 0) {
+      console.error(
+        LOG_COLORS.error,
+        `\n❌ ${failingDifferences.length} differences with a failing status found: ${failOn.join(", ")}`,
+      );
+      // The failing differences are told apart from the errors of the task, exiting with 1
+      process.exitCode = 2;
+    }
+  });
+
+sokoScope
+  .task(
+    "storage-layout",
+    "Check that the storage layouts of a local compilation are compatible with an existing artifact.",
+  )
+  .addFlag(
+    "aa",
+    `Fake flag - Task description: Check that the storage layouts of a local compilation are compatible with an existing artifact, in order to detect unsafe upgrades.
+
+The storage layouts are part of the compilation artifacts when \`storageLayout\` is in the output selection of the compilation. The artifact to compare with is pulled from the storage if missing locally.
+  npx hardhat soko storage-layout --artifact-path ./artifacts --tag v1.2.3
+  npx hardhat soko storage-layout --artifact-path ./artifacts --id 123456
+
+The project of the artifact to compare with defaults to the configured one
+  npx hardhat soko storage-layout --artifact-path ./artifacts --tag v1.2.3 --project another-project
+
+The check can be restricted to the upgradeable contracts, formatted as \`<file path>:<contract name>\` and separated by commas
+  npx hardhat soko storage-layout --artifact-path ./artifacts --tag v1.2.3 --contracts src/Vault.sol:Vault,src/Token.sol:Token
+
+Removed, reordered or retyped variables, variables declared by another contract of the inheritance chain and storage gaps not preserving the following slots are reported and the task fails.
+
+`,
+  )
+  .addParam("artifactPath", "The compilation artifact path to check")
+  .addOptionalParam(
+    "project",
+    "The project of the artifact to compare with, defaults to the configured project",
+  )
+  .addOptionalParam(
+    "id",
+    "The ID of the artifact to compare with, can not be used with the `tag` parameter",
+  )
+  .addOptionalParam(
+    "tag",
+    "The tag of the artifact to compare with, can not be used with the `id` parameter",
+  )
+  .addOptionalParam(
+    "contracts",
+    "The contracts to check, separated by commas, defaults to all the contracts of the artifact",
+  )
+  .addFlag("debug", "Enable debug mode")
+  .setAction(async (opts, hre) => {
+    const sokoConfig = hre.config.soko;
+    if (!sokoConfig) {
+      console.error("❌ Soko is not configured.");
+      process.exitCode = 1;
+      return;
+    }
+
+    const optsParsingResult = z
+      .object({
+        artifactPath: z.string().min(1),
+        project: z.string().min(1).default(sokoConfig.project),
+        id: z.string().optional(),
+        tag: z.string().optional(),
+        contracts: z
+          .string()
+          .optional()
+          .transform((contracts) =>
+            contracts
+              ?.split(",")
+              .map((contract) => contract.trim())
+              .filter((contract) => contract.length > 0),
+          ),
+        debug: z.boolean().default(sokoConfig.debug),
+      })
+      .safeParse(opts);
+    if (!optsParsingResult.success) {
+      console.error(LOG_COLORS.error, "❌ Invalid arguments");
+      if (sokoConfig.debug || opts.debug) {
+        console.error(optsParsingResult.error);
+      }
+      process.exitCode = 1;
+      return;
+    }
+    const tagOrId = resolveTagOrId(optsParsingResult.data);
+    if (!tagOrId) {
+      process.exitCode = 1;
+      return;
+    }
+
+    console.log(
+      LOG_COLORS.log,
+      `\nChecking the storage layouts of the current compilation against the "${optsParsingResult.data.project}:${tagOrId}" artifact`,
+    );
+
+    const localProvider = new LocalStorageProvider(
+      sokoConfig.pulledArtifactsPath,
+    );
+
+    const checkResult = await toAsyncResult(
+      checkStorageLayouts(
+        optsParsingResult.data.artifactPath,
+        { project: optsParsingResult.data.project, tagOrId },
+        {
+          contracts: optsParsingResult.data.contracts,
+          debug: optsParsingResult.data.debug,
+          signatureVerification:
+            sokoConfig.signing.trustedPublicKeys.length > 0
+              ? sokoConfig.signing
+              : undefined,
+        },
+        localProvider,
+        createStorageProvider(sokoConfig),
+      ),
+      { debug: optsParsingResult.data.debug },
+    );
+    if (!checkResult.success) {
+      if (checkResult.error instanceof ScriptError) {
+        console.log(LOG_COLORS.error, "❌ ", checkResult.error.message);
+        process.exitCode = 1;
+        return;
+      }
+      console.log(
+        LOG_COLORS.error,
+        "❌ An unexpected error occurred: ",
+        checkResult.error,
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    const { checkedContracts, issues, skipped } = checkResult.value;
+    if (skipped.length > 0) {
+      console.log(
+        LOG_COLORS.warn,
+        `\n${skipped.length} contracts can not be checked:`,
+      );
+      for (const skippedContract of skipped) {
+        console.log(
+          LOG_COLORS.warn,
+          ` - ${skippedContract.name} (${skippedContract.path}): ${skippedContract.reason}`,
+        );
+      }
+    }
+
+    if (issues.length === 0) {
+      console.log(
+        LOG_COLORS.success,
+        `\n${checkedContracts} contracts checked, no unsafe storage layout changes found`,
+      );
+      return;
+    }
+
+    console.log(
+      LOG_COLORS.error,
+      `\n❌ ${issues.length} unsafe storage layout changes found:`,
+    );
+    for (const issue of issues) {
+      console.log(
+        LOG_COLORS.error,
+        ` - ${issue.name} (${issue.path}): ${issue.kind} "${issue.label}" at slot ${issue.slot} and offset ${issue.offset}, ${issue.reason}`,
+      );
+    }
+    process.exitCode = 1;
+  });
+
+sokoScope
+  .task(
+    "verify-deployment",
+    "Verify that the code deployed at an address matches a contract of an existing artifact.",
+  )
+  .addFlag(
+    "aa",
+    `Fake flag - Task description: Verify that the code deployed at an address matches a contract of an existing artifact.
+
+The code is retrieved using \`eth_getCode\` and compared with the deployed bytecode of the contract. The immutable variables, the addresses of the linked libraries and the metadata suffix are not compared. The artifact must have been pulled.
+  npx hardhat soko verify-deployment --tag v1.2.0 --contract src/Foo.sol:Foo --address 0x... --rpc https://my-rpc.com
+
+The network selected in Hardhat is used if no JSON-RPC URL is provided
+  npx hardhat soko verify-deployment --tag v1.2.0 --contract src/Foo.sol:Foo --address 0x... --network mainnet
+
+The task fails if the code does not match.
+
+`,
+  )
+  .addParam(
+    "contract",
+    "The contract to verify, formatted as `<file path>:<contract name>`",
+  )
+  .addParam("address", "The address of the deployed contract")
+  .addOptionalParam(
+    "rpc",
+    "The URL of the JSON-RPC endpoint, defaults to the network selected in Hardhat",
+  )
+  .addOptionalParam(
+    "id",
+    "The ID of the artifact, can not be used with the `tag` parameter",
+  )
+  .addOptionalParam(
+    "tag",
+    "The tag of the artifact, can not be used with the `id` parameter",
+  )
+  .addOptionalParam(
+    "project",
+    "The project of the artifact, defaults to the configured project",
+  )
+  .addFlag("debug", "Enable debug mode")
+  .setAction(async (opts, hre) => {
+    const sokoConfig = hre.config.soko;
+    if (!sokoConfig) {
+      console.error("❌ Soko is not configured.");
+      process.exitCode = 1;
+      return;
+    }
+
+    const optsParsingResult = z
+      .object({
+        contract: z.string().min(1),
+        address: z.string().min(1),
+        rpc: z.string().url().optional(),
+        id: z.string().optional(),
+        tag: z.string().optional(),
+        project: z.string().min(1).default(sokoConfig.project),
+        debug: z.boolean().default(sokoConfig.debug),
+      })
+      .safeParse(opts);
+    if (!optsParsingResult.success) {
+      console.error(LOG_COLORS.error, "❌ Invalid arguments");
+      if (sokoConfig.debug || opts.debug) {
+        console.error(optsParsingResult.error);
+      }
+      process.exitCode = 1;
+      return;
+    }
+    const tagOrId = resolveTagOrId(optsParsingResult.data);
+    if (!tagOrId) {
+      process.exitCode = 1;
+      return;
+    }
+
+    const { contract, address, rpc, project } = optsParsingResult.data;
+    console.log(
+      LOG_COLORS.log,
+      `\nVerifying the code at address ${address} against the contract "${contract}" of the "${project}:${tagOrId}" artifact`,
+    );
+
+    const verificationResult = await toAsyncResult(
+      verifyDeployment(
+        { project, tagOrId },
+        { contract, address },
+        { debug: optsParsingResult.data.debug },
+        new LocalStorageProvider(sokoConfig.pulledArtifactsPath),
+        rpc ? createHttpJsonRpcProvider(rpc) : hre.network.provider,
+      ),
+      { debug: optsParsingResult.data.debug },
+    );
+    if (!verificationResult.success) {
+      if (verificationResult.error instanceof ScriptError) {
+        console.log(LOG_COLORS.error, "❌ ", verificationResult.error.message);
+        process.exitCode = 1;
+        return;
+      }
+      console.log(
+        LOG_COLORS.error,
+        "❌ An unexpected error occurred: ",
+        verificationResult.error,
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    const verification = verificationResult.value;
+    if (verification.status === "no-code") {
+      console.log(
+        LOG_COLORS.error,
+        `\n❌ No code has been found at address ${address}`,
+      );
+      process.exitCode = 1;
+      return;
+    }
+    if (verification.status === "mismatch") {
+      console.log(
+        LOG_COLORS.error,
+        `\n❌ The deployed code does not match the contract, ${verification.reason}`,
+      );
+      process.exitCode = 1;
+      return;
+    }
+    console.log(
+      LOG_COLORS.success,
+      `\nThe deployed code matches the contract "${contract}" of the "${project}:${tagOrId}" artifact, ${verification.maskedBytes} bytes of immutable variables and linked libraries have been ignored`,
+    );
+    if (!verification.metadataMatch) {
+      console.log(
+        LOG_COLORS.warn,
+        "The metadata suffix differs, the contract has been compiled from sources with different comments, paths or settings not affecting the code",
+      );
+    }
+  });
+
+sokoScope
+  .task(
+    "export-verification",
+    "Export the files needed to verify a contract of an existing artifact on a block explorer or on Sourcify.",
+  )
+  .addFlag(
+    "aa",
+    `Fake flag - Task description: Export the files needed to verify a contract of an existing artifact on a block explorer or on Sourcify.
+
+The Standard JSON input of the compilation, the compiler version and the contract name are written, along with a Sourcify bundle made of the metadata and the sources of the contract. The artifact must have been pulled.
+  npx hardhat soko export-verification --tag v1.2.0 --contract src/Foo.sol:Foo
+
+The files are written in the \`soko-verification\` directory by default
+  npx hardhat soko export-verification --tag v1.2.0 --contract src/Foo.sol:Foo --output ./verification/foo
+
+`,
+  )
+  .addParam(
+    "contract",
+    "The contract to verify, formatted as `<file path>:<contract name>`",
+  )
+  .addOptionalParam(
+    "output",
+    "The directory in which the files are written, defaults to `soko-verification`",
+  )
+  .addOptionalParam(
+    "id",
+    "The ID of the artifact, can not be used with the `tag` parameter",
+  )
+  .addOptionalParam(
+    "tag",
+    "The tag of the artifact, can not be used with the `id` parameter",
+  )
+  .addOptionalParam(
+    "project",
+    "The project of the artifact, defaults to the configured project",
+  )
+  .addFlag("debug", "Enable debug mode")
+  .setAction(async (opts, hre) => {
+    const sokoConfig = hre.config.soko;
+    if (!sokoConfig) {
+      console.error("❌ Soko is not configured.");
+      process.exitCode = 1;
+      return;
+    }
+
+    const optsParsingResult = z
+      .object({
+        contract: z.string().min(1),
+        output: z.string().min(1).default("soko-verification"),
+        id: z.string().optional(),
+        tag: z.string().optional(),
+        project: z.string().min(1).default(sokoConfig.project),
+        debug: z.boolean().default(sokoConfig.debug),
+      })
+      .safeParse(opts);
+    if (!optsParsingResult.success) {
+      console.error(LOG_COLORS.error, "❌ Invalid arguments");
+      if (sokoConfig.debug || opts.debug) {
+        console.error(optsParsingResult.error);
+      }
+      process.exitCode = 1;
+      return;
+    }
+    const tagOrId = resolveTagOrId(optsParsingResult.data);
+    if (!tagOrId) {
+      process.exitCode = 1;
+      return;
+    }
+
+    const { contract, output, project } = optsParsingResult.data;
+    console.log(
+      LOG_COLORS.log,
+      `\nExporting the verification files of the contract "${contract}" of the "${project}:${tagOrId}" artifact`,
+    );
+
+    const exportResult = await toAsyncResult(
+      exportVerificationInput(
+        { project, tagOrId },
+        contract,
+        output,
+        { debug: optsParsingResult.data.debug },
+        new LocalStorageProvider(sokoConfig.pulledArtifactsPath),
+      ),
+      { debug: optsParsingResult.data.debug },
+    );
+    if (!exportResult.success) {
+      if (exportResult.error instanceof ScriptError) {
+        console.log(LOG_COLORS.error, "❌ ", exportResult.error.message);
+        process.exitCode = 1;
+        return;
+      }
+      console.log(
+        LOG_COLORS.error,
+        "❌ An unexpected error occurred: ",
+        exportResult.error,
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    console.log(
+      LOG_COLORS.success,
+      `\n${exportResult.value.length} verification files written:`,
+    );
+    for (const filePath of exportResult.value) {
+      console.log(LOG_COLORS.success, ` - ${filePath}`);
+    }
+  });
+
+sokoScope
+  .task(
+    "export",
+    "Export the contracts of an existing artifact as the artifacts directory of a Hardhat or Foundry project.",
+  )
+  .addFlag(
+    "aa",
+    `Fake flag - Task description: Export the contracts of an existing artifact as the artifacts directory of a Hardhat or Foundry project.
+
+A file is written for each contract, with its ABI, its bytecodes and its link references, along with the build infos of the artifact. The artifact must have been pulled.
+  npx hardhat soko export --tag v1.0.0 --format hardhat --out ./exported-artifacts
+
+The Foundry format writes the contracts as Forge does, i.e. \`<file name>/<contract name>.json\`
+  npx hardhat soko export --tag v1.0.0 --format foundry --out ./out
+
+`,
+  )
+  .addParam("format", "The format of the artifacts: `hardhat` or `foundry`")
+  .addParam("out", "The directory in which the artifacts are written")
+  .addOptionalParam(
+    "id",
+    "The ID of the artifact, can not be used with the `tag` parameter",
+  )
+  .addOptionalParam(
+    "tag",
+    "The tag of the artifact, can not be used with the `id` parameter",
+  )
+  .addOptionalParam(
+    "project",
+    "The project of the artifact, defaults to the configured project",
+  )
+  .addFlag("debug", "Enable debug mode")
+  .setAction(async (opts, hre) => {
+    const sokoConfig = hre.config.soko;
+    if (!sokoConfig) {
+      console.error("❌ Soko is not configured.");
+      process.exitCode = 1;
+      return;
+    }
+
+    const optsParsingResult = z
+      .object({
+        format: z.enum(EXPORT_FORMATS),
+        out: z.string().min(1),
+        id: z.string().optional(),
+        tag: z.string().optional(),
+        project: z.string().min(1).default(sokoConfig.project),
+        debug: z.boolean().default(sokoConfig.debug),
+      })
+      .safeParse(opts);
+    if (!optsParsingResult.success) {
+      console.error(LOG_COLORS.error, "❌ Invalid arguments");
+      if (sokoConfig.debug || opts.debug) {
+        console.error(optsParsingResult.error);
+      }
+      process.exitCode = 1;
+      return;
+    }
+    const tagOrId = resolveTagOrId(optsParsingResult.data);
+    if (!tagOrId) {
+      process.exitCode = 1;
+      return;
+    }
+
+    const { format, out, project } = optsParsingResult.data;
+    console.log(
+      LOG_COLORS.log,
+      `\nExporting the "${project}:${tagOrId}" artifact as ${format} artifacts in "${out}"`,
+    );
+
+    const exportResult = await toAsyncResult(
+      exportArtifacts(
+        { project, tagOrId },
+        format,
+        out,
+        { debug: optsParsingResult.data.debug },
+        new LocalStorageProvider(sokoConfig.pulledArtifactsPath),
+      ),
+      { debug: optsParsingResult.data.debug },
+    );
+    if (!exportResult.success) {
+      if (exportResult.error instanceof ScriptError) {
+        console.log(LOG_COLORS.error, "❌ ", exportResult.error.message);
+        process.exitCode = 1;
+        return;
+      }
+      console.log(
+        LOG_COLORS.error,
+        "❌ An unexpected error occurred: ",
+        exportResult.error,
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    console.log(
+      LOG_COLORS.success,
+      `\n${exportResult.value.contracts} contracts and ${exportResult.value.buildInfos} build infos exported in "${out}"`,
+    );
+  });
+
 sokoScope
   .task("help", "Use `npx hardhat help soko` instead")
   .setAction(async () => {
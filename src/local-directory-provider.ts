@@ -0,0 +1,432 @@
+import fs from "fs/promises";
+import { constants as fsConstants, createReadStream } from "fs";
+import { Stream } from "stream";
+import { StorageProvider, TagConflictError } from "./storage-provider";
+import { streamToString } from "./utils";
+import { resolveArtifactId } from "./artifact-id";
+import {
+  CompressionAlgorithm,
+  compressArtifact,
+  decompressArtifactStream,
+} from "./artifact-compression";
+import { ArtifactMetadata, ZArtifactMetadata } from "./artifact-metadata";
+import { ArtifactSignature, ZArtifactSignature } from "./artifact-signature";
+import {
+  decryptArtifactStream,
+  EncryptionConfiguration,
+  encryptArtifact,
+  resolveEncryptionKey,
+} from "./artifact-encryption";
+
+// Extension appended to the `.json` extension of the compressed files
+const COMPRESSION_EXTENSIONS: Record<CompressionAlgorithm, string> = {
+  none: "",
+  gzip: ".gz",
+  brotli: ".br",
+};
+
+const COMPRESSION_ALGORITHMS = Object.keys(
+  COMPRESSION_EXTENSIONS,
+) as CompressionAlgorithm[];
+
+function compressedPaths(path: string): string[] {
+  return COMPRESSION_ALGORITHMS.map(
+    (compression) => `${path}${COMPRESSION_EXTENSIONS[compression]}`,
+  );
+}
+
+type LocalDirectoryProviderConfig = {
+  path: string;
+  compression?: CompressionAlgorithm;
+  encryption?: EncryptionConfiguration;
+};
+/**
+ * Storage provider backed by a local directory, e.g. a mounted network share or a folder in a monorepo.
+ *
+ * The artifacts are stored using the same layout as the other providers:
+ * ```
+ * <path>/<project>/ids/<id>.json
+ * <path>/<project>/tags/<tag>.json
+ * <path>/<project>/metadata/<id>.json
+ * ```
+ * The ID a tag points to is recorded in `<path>/<project>/tags/<tag>.id`, as the S3 provider records it in the object metadata.
+ * The compressed files have the extension of their algorithm appended, e.g. `<id>.json.gz` or `<id>.json.br`, the encryption is detected from the header of the files.
+ */
+export class LocalDirectoryProvider implements StorageProvider {
+  private readonly rootPath: string;
+  private readonly compression: CompressionAlgorithm;
+  private readonly encryption: EncryptionConfiguration | undefined;
+  private encryptionKey: Promise<Buffer> | undefined;
+
+  constructor(config: LocalDirectoryProviderConfig) {
+    this.rootPath = config.path;
+    this.compression = config.compression || "none";
+    this.encryption = config.encryption;
+  }
+
+  public async *listProjects(): AsyncIterable<string> {
+    const directory = await fs.opendir(this.rootPath).catch((err) => {
+      // Nothing has been pushed yet
+      if (err.code === "ENOENT") {
+        return undefined;
+      }
+      throw err;
+    });
+    if (!directory) {
+      return;
+    }
+    for await (const entry of directory) {
+      if (entry.isDirectory()) {
+        yield entry.name;
+      }
+    }
+  }
+
+  public listIds(project: string): AsyncIterable<string> {
+    return this.listJsonFiles(`${this.rootPath}/${project}/ids`);
+  }
+
+  public listTags(project: string): AsyncIterable<string> {
+    return this.listJsonFiles(`${this.rootPath}/${project}/tags`);
+  }
+
+  public async hasArtifactByTag(
+    project: string,
+    tag: string,
+  ): Promise<boolean> {
+    const file = await this.findArtifactFile(
+      `${this.rootPath}/${project}/tags/${tag}.json`,
+    );
+    return Boolean(file);
+  }
+
+  public async hasArtifactById(project: string, id: string): Promise<boolean> {
+    const file = await this.findArtifactFile(
+      `${this.rootPath}/${project}/ids/${id}.json`,
+    );
+    return Boolean(file);
+  }
+
+  public async retrieveArtifactIdByTag(
+    project: string,
+    tag: string,
+  ): Promise<string> {
+    const recordedId = await this.retrieveRecordedArtifactIdByTag(project, tag);
+    if (recordedId) {
+      return recordedId;
+    }
+    // Tags written before the ID was recorded are hashed
+    const content = await streamToString(
+      await this.downloadArtifactByTag(project, tag),
+    );
+    return resolveArtifactId(content, (id) =>
+      this.hasArtifactById(project, id),
+    );
+  }
+
+  public async retrieveRecordedArtifactIdByTag(
+    project: string,
+    tag: string,
+  ): Promise<string | undefined> {
+    const recordedId = await fs
+      .readFile(`${this.rootPath}/${project}/tags/${tag}.id`, "utf-8")
+      .catch((err) => {
+        if (err.code === "ENOENT") {
+          return undefined;
+        }
+        throw err;
+      });
+    return recordedId?.trim() || undefined;
+  }
+
+  public async uploadArtifact(
+    project: string,
+    id: string,
+    tag: string | undefined,
+    content: string,
+    opts: { force: boolean },
+  ): Promise<void> {
+    await fs.mkdir(`${this.rootPath}/${project}/ids`, { recursive: true });
+    const idPath = `${this.rootPath}/${project}/ids/${id}.json`;
+    await fs.writeFile(
+      `${idPath}${COMPRESSION_EXTENSIONS[this.compression]}`,
+      await this.encodeArtifact(content),
+    );
+    await this.deleteOtherCompressions(idPath, this.compression);
+
+    if (tag) {
+      await this.tagArtifact(project, id, tag, opts);
+    }
+  }
+
+  public async tagArtifact(
+    project: string,
+    id: string,
+    tag: string,
+    opts: { force: boolean },
+  ): Promise<void> {
+    const idPath = `${this.rootPath}/${project}/ids/${id}.json`;
+    const idFile = await this.findArtifactFile(idPath);
+    if (!idFile) {
+      throw new Error(`The artifact "${project}:${id}" does not exist`);
+    }
+    await fs.mkdir(`${this.rootPath}/${project}/tags`, { recursive: true });
+    const tagPath = `${this.rootPath}/${project}/tags/${tag}.json`;
+    // A tag stored with another compression is not covered by the exclusive copy
+    if (!opts.force && (await this.findArtifactFile(tagPath))) {
+      throw new TagConflictError(project, tag);
+    }
+    // The copy fails atomically if the tag already exists, unless forced
+    await fs
+      .copyFile(
+        idFile.path,
+        `${tagPath}${COMPRESSION_EXTENSIONS[idFile.compression]}`,
+        opts.force ? 0 : fsConstants.COPYFILE_EXCL,
+      )
+      .catch((err) => {
+        if (err.code === "EEXIST") {
+          throw new TagConflictError(project, tag);
+        }
+        throw err;
+      });
+    await this.deleteOtherCompressions(tagPath, idFile.compression);
+    await fs.writeFile(`${this.rootPath}/${project}/tags/${tag}.id`, id);
+  }
+
+  public async deleteTag(
+    project: string,
+    tag: string,
+    opts: { dryRun: boolean },
+  ): Promise<string[]> {
+    return this.deleteExistingFiles(
+      [
+        ...compressedPaths(`${this.rootPath}/${project}/tags/${tag}.json`),
+        `${this.rootPath}/${project}/tags/${tag}.id`,
+        `${this.rootPath}/${project}/signatures/tags/${tag}.json`,
+      ],
+      opts,
+    );
+  }
+
+  public async deleteId(
+    project: string,
+    id: string,
+    opts: { dryRun: boolean },
+  ): Promise<string[]> {
+    return this.deleteExistingFiles(
+      [
+        ...compressedPaths(`${this.rootPath}/${project}/ids/${id}.json`),
+        `${this.rootPath}/${project}/metadata/${id}.json`,
+        `${this.rootPath}/${project}/signatures/ids/${id}.json`,
+      ],
+      opts,
+    );
+  }
+
+  public async downloadArtifactById(
+    project: string,
+    id: string,
+  ): Promise<Stream> {
+    return this.openReadStream(`${this.rootPath}/${project}/ids/${id}.json`);
+  }
+
+  public async downloadArtifactByTag(
+    project: string,
+    tag: string,
+  ): Promise<Stream> {
+    return this.openReadStream(`${this.rootPath}/${project}/tags/${tag}.json`);
+  }
+
+  public async uploadArtifactMetadata(
+    project: string,
+    id: string,
+    metadata: ArtifactMetadata,
+  ): Promise<void> {
+    await fs.mkdir(`${this.rootPath}/${project}/metadata`, {
+      recursive: true,
+    });
+    await fs.writeFile(
+      `${this.rootPath}/${project}/metadata/${id}.json`,
+      JSON.stringify(metadata),
+    );
+  }
+
+  public async downloadArtifactMetadata(
+    project: string,
+    id: string,
+  ): Promise<ArtifactMetadata | undefined> {
+    const content = await fs
+      .readFile(`${this.rootPath}/${project}/metadata/${id}.json`, "utf-8")
+      .catch((err) => {
+        if (err.code === "ENOENT") {
+          return undefined;
+        }
+        throw err;
+      });
+    if (content === undefined) {
+      return undefined;
+    }
+    return ZArtifactMetadata.parse(JSON.parse(content));
+  }
+
+  public async uploadArtifactSignature(
+    project: string,
+    artifact: { type: "tag" | "id"; value: string },
+    signature: ArtifactSignature,
+  ): Promise<void> {
+    const signaturesPath = `${this.rootPath}/${project}/signatures/${artifact.type === "tag" ? "tags" : "ids"}`;
+    await fs.mkdir(signaturesPath, { recursive: true });
+    await fs.writeFile(
+      `${signaturesPath}/${artifact.value}.json`,
+      JSON.stringify(signature),
+    );
+  }
+
+  public async deleteArtifactSignature(
+    project: string,
+    artifact: { type: "tag" | "id"; value: string },
+  ): Promise<void> {
+    await fs.rm(
+      `${this.rootPath}/${project}/signatures/${artifact.type === "tag" ? "tags" : "ids"}/${artifact.value}.json`,
+      { force: true },
+    );
+  }
+
+  public async downloadArtifactSignature(
+    project: string,
+    artifact: { type: "tag" | "id"; value: string },
+  ): Promise<ArtifactSignature | undefined> {
+    const content = await fs
+      .readFile(
+        `${this.rootPath}/${project}/signatures/${artifact.type === "tag" ? "tags" : "ids"}/${artifact.value}.json`,
+        "utf-8",
+      )
+      .catch((err) => {
+        if (err.code === "ENOENT") {
+          return undefined;
+        }
+        throw err;
+      });
+    if (content === undefined) {
+      return undefined;
+    }
+    return ZArtifactSignature.parse(JSON.parse(content));
+  }
+
+  private async *listJsonFiles(directoryPath: string): AsyncIterable<string> {
+    const directory = await fs.opendir(directoryPath).catch((err) => {
+      // A project without any push yet has no directory
+      if (err.code === "ENOENT") {
+        return undefined;
+      }
+      throw err;
+    });
+    if (!directory) {
+      return;
+    }
+    // An artifact is listed once, even if it is stored with several compressions
+    const names = new Set<string>();
+    for await (const entry of directory) {
+      const match = /^(.+)\.json(\.gz|\.br)?$/.exec(entry.name);
+      if (entry.isFile() && match && !names.has(match[1])) {
+        names.add(match[1]);
+        yield match[1];
+      }
+    }
+  }
+
+  private async deleteExistingFiles(
+    paths: string[],
+    opts: { dryRun: boolean },
+  ): Promise<string[]> {
+    const existingPaths: string[] = [];
+    for (const path of paths) {
+      if (await this.exists(path)) {
+        existingPaths.push(path);
+      }
+    }
+    if (!opts.dryRun) {
+      for (const path of existingPaths) {
+        await fs.rm(path);
+      }
+    }
+    return existingPaths;
+  }
+
+  private async openReadStream(path: string): Promise<Stream> {
+    const file = await this.findArtifactFile(path);
+    if (!file) {
+      // Fail early with a proper error instead of an error emitted by the stream
+      await fs.access(path);
+      throw new Error(`The file "${path}" does not exist`);
+    }
+    return decompressArtifactStream(
+      await decryptArtifactStream(
+        createReadStream(file.path),
+        this.encryption ? () => this.getEncryptionKey() : undefined,
+      ),
+      file.compression,
+    );
+  }
+
+  /**
+   * Find the file of an artifact, whatever its compression
+   * @param path Path of the artifact file without the compression extension, e.g. `<path>/<project>/ids/<id>.json`
+   * @returns The path of the file and its compression, `undefined` if the artifact does not exist
+   */
+  private async findArtifactFile(
+    path: string,
+  ): Promise<{ path: string; compression: CompressionAlgorithm } | undefined> {
+    for (const compression of COMPRESSION_ALGORITHMS) {
+      const filePath = `${path}${COMPRESSION_EXTENSIONS[compression]}`;
+      if (await this.exists(filePath)) {
+        return { path: filePath, compression };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Delete the files of an artifact stored with another compression than the given one, e.g. after a push with a new compression
+   */
+  private async deleteOtherCompressions(
+    path: string,
+    compression: CompressionAlgorithm,
+  ): Promise<void> {
+    for (const otherCompression of COMPRESSION_ALGORITHMS) {
+      if (otherCompression !== compression) {
+        await fs.rm(`${path}${COMPRESSION_EXTENSIONS[otherCompression]}`, {
+          force: true,
+        });
+      }
+    }
+  }
+
+  /**
+   * Compress then, if configured, encrypt the content of an artifact
+   */
+  private async encodeArtifact(content: string): Promise<string | Buffer> {
+    const compressedContent = await compressArtifact(content, this.compression);
+    if (!this.encryption) {
+      return compressedContent;
+    }
+    return encryptArtifact(compressedContent, await this.getEncryptionKey());
+  }
+
+  /**
+   * The key is resolved once, when first needed
+   */
+  private getEncryptionKey(): Promise<Buffer> {
+    if (!this.encryptionKey) {
+      this.encryptionKey = resolveEncryptionKey(this.encryption || {});
+    }
+    return this.encryptionKey;
+  }
+
+  private exists(path: string): Promise<boolean> {
+    return fs
+      .stat(path)
+      .then(() => true)
+      .catch(() => false);
+  }
+}
@@ -1,128 +1,147 @@
 import {
   CopyObjectCommand,
+  DeleteObjectsCommand,
   GetObjectCommand,
+  HeadObjectCommand,
   ListObjectsV2Command,
   NoSuchKey,
+  NotFound,
   PutObjectCommand,
   S3Client,
+  S3ServiceException,
 } from "@aws-sdk/client-s3";
-import { NodeJsClient } from "@smithy/types";
+import {
+  fromNodeProviderChain,
+  fromTemporaryCredentials,
+} from "@aws-sdk/credential-providers";
+import {
+  AwsCredentialIdentity,
+  AwsCredentialIdentityProvider,
+  NodeJsClient,
+} from "@smithy/types";
 import { Stream } from "stream";
+import { StorageProvider, TagConflictError } from "./storage-provider";
+import {
+  CompressionAlgorithm,
+  compressArtifact,
+  decompressArtifactStream,
+  isCompressionAlgorithm,
+} from "./artifact-compression";
+import { ArtifactMetadata, ZArtifactMetadata } from "./artifact-metadata";
+import { ArtifactSignature, ZArtifactSignature } from "./artifact-signature";
+import {
+  decryptArtifactStream,
+  EncryptionConfiguration,
+  encryptArtifact,
+  resolveEncryptionKey,
+} from "./artifact-encryption";
+import { ScriptError, streamToString } from "./utils";
+import { resolveArtifactId } from "./artifact-id";
 
-export interface StorageProvider {
-  listTags(project: string): Promise<string[]>;
-  listIds(project: string): Promise<string[]>;
-  hasArtifactByTag(project: string, tag: string): Promise<boolean>;
-  hasArtifactById(project: string, tag: string): Promise<boolean>;
-  uploadArtifact(
-    project: string,
-    id: string,
-    tag: string | undefined,
-    content: string,
-  ): Promise<void>;
-  downloadArtifactById(project: string, id: string): Promise<Stream>;
-  downloadArtifactByTag(project: string, tag: string): Promise<Stream>;
-}
+const COMPRESSION_METADATA_KEY = "soko-compression";
+const ARTIFACT_ID_METADATA_KEY = "soko-artifact-id";
 
 type S3BucketProviderConfig = {
   bucketName: string;
   bucketRegion: string;
-  accessKeyId: string;
-  secretAccessKey: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  profile?: string;
+  roleArn?: string;
+  endpoint?: string;
+  forcePathStyle?: boolean;
   rootPath?: string;
+  compression?: CompressionAlgorithm;
+  encryption?: EncryptionConfiguration;
 };
 export class S3BucketProvider implements StorageProvider {
   private readonly config: S3BucketProviderConfig;
   private readonly client: NodeJsClient<S3Client>;
   private readonly rootPath: string;
+  private readonly compression: CompressionAlgorithm;
+  private encryptionKey: Promise<Buffer> | undefined;
 
   constructor(config: S3BucketProviderConfig) {
     const s3Client: NodeJsClient<S3Client> = new S3Client({
       region: config.bucketRegion,
-      credentials: {
-        accessKeyId: config.accessKeyId,
-        secretAccessKey: config.secretAccessKey,
-      },
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      credentials: resolveCredentials(config),
     });
 
     this.rootPath = config.rootPath || "projects";
+    this.compression = config.compression || "none";
     this.config = config;
     this.client = s3Client;
   }
 
-  public async listIds(project: string): Promise<string[]> {
-    const listCommand = new ListObjectsV2Command({
-      Bucket: this.config.bucketName,
-      Prefix: `${this.rootPath}/${project}/ids/`,
-    });
-    const listResult = await this.client.send(listCommand);
-    const contents = listResult.Contents;
-    if (!contents) {
-      return [];
-    }
-    const ids = [];
-    for (const content of contents) {
-      const key = content.Key;
-      if (!key) continue;
-      const id = key
-        .replace(`${this.rootPath}/${project}/ids/`, "")
-        .replace(".json", "");
-      ids.push(id);
-    }
-    return ids;
+  public async *listProjects(): AsyncIterable<string> {
+    const prefix = `${this.rootPath}/`;
+    let continuationToken: string | undefined = undefined;
+    do {
+      const listCommand: ListObjectsV2Command = new ListObjectsV2Command({
+        Bucket: this.config.bucketName,
+        Prefix: prefix,
+        Delimiter: "/",
+        ContinuationToken: continuationToken,
+      });
+      const listResult = await this.client.send(listCommand);
+      for (const commonPrefix of listResult.CommonPrefixes ?? []) {
+        if (!commonPrefix.Prefix) continue;
+        yield commonPrefix.Prefix.replace(prefix, "").replace(/\/$/, "");
+      }
+      continuationToken = listResult.IsTruncated
+        ? listResult.NextContinuationToken
+        : undefined;
+    } while (continuationToken);
   }
 
-  public async listTags(project: string): Promise<string[]> {
-    const listCommand = new ListObjectsV2Command({
-      Bucket: this.config.bucketName,
-      Prefix: `${this.rootPath}/${project}/tags/`,
-    });
-    const listResult = await this.client.send(listCommand);
-    const contents = listResult.Contents;
-    if (!contents) {
-      return [];
-    }
-    const tags = [];
-    for (const content of contents) {
-      const key = content.Key;
-      if (!key) continue;
-      const tag = key
-        .replace(`${this.rootPath}/${project}/tags/`, "")
-        .replace(".json", "");
-      tags.push(tag);
-    }
-    return tags;
+  public listIds(project: string): AsyncIterable<string> {
+    return this.listKeySuffixes(`${this.rootPath}/${project}/ids/`);
+  }
+
+  public listTags(project: string): AsyncIterable<string> {
+    return this.listKeySuffixes(`${this.rootPath}/${project}/tags/`);
   }
 
   public async hasArtifactByTag(
     project: string,
     tag: string,
   ): Promise<boolean> {
-    const headCommand = new GetObjectCommand({
-      Bucket: this.config.bucketName,
-      Key: `${this.rootPath}/${project}/tags/${tag}.json`,
-    });
-    const headResult = await this.client.send(headCommand).catch((err) => {
-      if (err instanceof NoSuchKey) {
-        return null;
-      }
-      throw err;
-    });
-    return Boolean(headResult);
+    return this.hasObject(`${this.rootPath}/${project}/tags/${tag}.json`);
   }
 
   public async hasArtifactById(project: string, id: string): Promise<boolean> {
-    const headCommand = new GetObjectCommand({
+    return this.hasObject(`${this.rootPath}/${project}/ids/${id}.json`);
+  }
+
+  public async retrieveArtifactIdByTag(
+    project: string,
+    tag: string,
+  ): Promise<string> {
+    const recordedId = await this.retrieveRecordedArtifactIdByTag(project, tag);
+    if (recordedId) {
+      return recordedId;
+    }
+    // Tags uploaded before the ID was recorded in the metadata are hashed
+    const content = await streamToString(
+      await this.downloadArtifactByTag(project, tag),
+    );
+    return resolveArtifactId(content, (id) =>
+      this.hasArtifactById(project, id),
+    );
+  }
+
+  public async retrieveRecordedArtifactIdByTag(
+    project: string,
+    tag: string,
+  ): Promise<string | undefined> {
+    const headCommand = new HeadObjectCommand({
       Bucket: this.config.bucketName,
-      Key: `${this.rootPath}/${project}/ids/${id}.json`,
-    });
-    const headResult = await this.client.send(headCommand).catch((err) => {
-      if (err instanceof NoSuchKey) {
-        return null;
-      }
-      throw err;
+      Key: `${this.rootPath}/${project}/tags/${tag}.json`,
     });
-    return Boolean(headResult);
+    const headResult = await this.client.send(headCommand);
+    return headResult.Metadata?.[ARTIFACT_ID_METADATA_KEY] || undefined;
   }
 
   public async uploadArtifact(
@@ -130,55 +149,368 @@ export class S3BucketProvider implements StorageProvider {
     id: string,
     tag: string | undefined,
     content: string,
+    opts: { force: boolean },
   ): Promise<void> {
-    const idKey = `${this.rootPath}/${project}/ids/${id}.json`;
+    const body = await this.encodeArtifact(content);
+    // The compression is recorded in the object metadata, the content encoding is not used as some S3 compatible storages transparently decompress such objects
+    const metadata = {
+      [COMPRESSION_METADATA_KEY]: this.compression,
+      [ARTIFACT_ID_METADATA_KEY]: id,
+    };
 
     const putIdCommand = new PutObjectCommand({
       Bucket: this.config.bucketName,
-      Key: idKey,
-      Body: content,
+      Key: `${this.rootPath}/${project}/ids/${id}.json`,
+      Body: body,
+      Metadata: metadata,
     });
     await this.client.send(putIdCommand);
 
     if (tag) {
-      const copyCommand = new CopyObjectCommand({
-        Bucket: this.config.bucketName,
-        Key: `${this.rootPath}/${project}/tags/${tag}.json`,
-        CopySource: `${this.config.bucketName}/${idKey}`,
-      });
-      await this.client.send(copyCommand);
+      await this.copyIdToTag(project, id, tag, metadata, opts);
     }
   }
 
-  public async downloadArtifactById(
+  public async tagArtifact(
     project: string,
     id: string,
-  ): Promise<Stream> {
-    const getObjectCommand = new GetObjectCommand({
+    tag: string,
+    opts: { force: boolean },
+  ): Promise<void> {
+    // The metadata of the ID, e.g. its compression, is kept while the ID is recorded for the IDs uploaded before it was
+    const headIdCommand = new HeadObjectCommand({
       Bucket: this.config.bucketName,
       Key: `${this.rootPath}/${project}/ids/${id}.json`,
     });
-    const getObjectResult = await this.client.send(getObjectCommand);
-    if (!getObjectResult.Body) {
-      throw new Error("Error fetching the artifact");
-    }
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    return getObjectResult.Body.transformToWebStream() as any;
+    const headIdResult = await this.client.send(headIdCommand);
+    await this.copyIdToTag(
+      project,
+      id,
+      tag,
+      { ...headIdResult.Metadata, [ARTIFACT_ID_METADATA_KEY]: id },
+      opts,
+    );
+  }
+
+  public async deleteTag(
+    project: string,
+    tag: string,
+    opts: { dryRun: boolean },
+  ): Promise<string[]> {
+    return this.deleteExistingObjects(
+      [
+        `${this.rootPath}/${project}/tags/${tag}.json`,
+        `${this.rootPath}/${project}/signatures/tags/${tag}.json`,
+      ],
+      opts,
+    );
+  }
+
+  public async deleteId(
+    project: string,
+    id: string,
+    opts: { dryRun: boolean },
+  ): Promise<string[]> {
+    return this.deleteExistingObjects(
+      [
+        `${this.rootPath}/${project}/ids/${id}.json`,
+        `${this.rootPath}/${project}/metadata/${id}.json`,
+        `${this.rootPath}/${project}/signatures/ids/${id}.json`,
+      ],
+      opts,
+    );
+  }
+
+  public async downloadArtifactById(
+    project: string,
+    id: string,
+  ): Promise<Stream> {
+    return this.downloadObject(`${this.rootPath}/${project}/ids/${id}.json`);
   }
 
   public async downloadArtifactByTag(
     project: string,
     tag: string,
   ): Promise<Stream> {
+    return this.downloadObject(`${this.rootPath}/${project}/tags/${tag}.json`);
+  }
+
+  public async uploadArtifactMetadata(
+    project: string,
+    id: string,
+    metadata: ArtifactMetadata,
+  ): Promise<void> {
+    const putMetadataCommand = new PutObjectCommand({
+      Bucket: this.config.bucketName,
+      Key: `${this.rootPath}/${project}/metadata/${id}.json`,
+      Body: JSON.stringify(metadata),
+      ContentType: "application/json",
+    });
+    await this.client.send(putMetadataCommand);
+  }
+
+  public async downloadArtifactMetadata(
+    project: string,
+    id: string,
+  ): Promise<ArtifactMetadata | undefined> {
+    const getObjectCommand = new GetObjectCommand({
+      Bucket: this.config.bucketName,
+      Key: `${this.rootPath}/${project}/metadata/${id}.json`,
+    });
+    const getObjectResult = await this.client
+      .send(getObjectCommand)
+      .catch((err) => {
+        if (err instanceof NoSuchKey) {
+          return null;
+        }
+        throw err;
+      });
+    if (!getObjectResult?.Body) {
+      return undefined;
+    }
+    const content = await getObjectResult.Body.transformToString();
+    return ZArtifactMetadata.parse(JSON.parse(content));
+  }
+
+  public async uploadArtifactSignature(
+    project: string,
+    artifact: { type: "tag" | "id"; value: string },
+    signature: ArtifactSignature,
+  ): Promise<void> {
+    const putSignatureCommand = new PutObjectCommand({
+      Bucket: this.config.bucketName,
+      Key: `${this.rootPath}/${project}/signatures/${artifact.type === "tag" ? "tags" : "ids"}/${artifact.value}.json`,
+      Body: JSON.stringify(signature),
+      ContentType: "application/json",
+    });
+    await this.client.send(putSignatureCommand);
+  }
+
+  public async deleteArtifactSignature(
+    project: string,
+    artifact: { type: "tag" | "id"; value: string },
+  ): Promise<void> {
+    await this.deleteExistingObjects(
+      [
+        `${this.rootPath}/${project}/signatures/${artifact.type === "tag" ? "tags" : "ids"}/${artifact.value}.json`,
+      ],
+      { dryRun: false },
+    );
+  }
+
+  public async downloadArtifactSignature(
+    project: string,
+    artifact: { type: "tag" | "id"; value: string },
+  ): Promise<ArtifactSignature | undefined> {
     const getObjectCommand = new GetObjectCommand({
       Bucket: this.config.bucketName,
+      Key: `${this.rootPath}/${project}/signatures/${artifact.type === "tag" ? "tags" : "ids"}/${artifact.value}.json`,
+    });
+    const getObjectResult = await this.client
+      .send(getObjectCommand)
+      .catch((err) => {
+        if (err instanceof NoSuchKey) {
+          return null;
+        }
+        throw err;
+      });
+    if (!getObjectResult?.Body) {
+      return undefined;
+    }
+    const content = await getObjectResult.Body.transformToString();
+    return ZArtifactSignature.parse(JSON.parse(content));
+  }
+
+  /**
+   * Copy the object of an ID to a tag, the copy is conditioned on the absence of the tag unless forced
+   */
+  private async copyIdToTag(
+    project: string,
+    id: string,
+    tag: string,
+    metadata: Record<string, string>,
+    opts: { force: boolean },
+  ): Promise<void> {
+    const copyCommand = new CopyObjectCommand({
+      Bucket: this.config.bucketName,
+      CopySource: encodeURI(
+        `${this.config.bucketName}/${this.rootPath}/${project}/ids/${id}.json`,
+      ),
       Key: `${this.rootPath}/${project}/tags/${tag}.json`,
+      MetadataDirective: "REPLACE",
+      Metadata: metadata,
+      IfNoneMatch: opts.force ? undefined : "*",
+    });
+    await this.client.send(copyCommand).catch((err) => {
+      if (isConditionalWriteFailure(err)) {
+        throw new TagConflictError(project, tag);
+      }
+      throw err;
+    });
+  }
+
+  private async downloadObject(key: string): Promise<Stream> {
+    const getObjectCommand = new GetObjectCommand({
+      Bucket: this.config.bucketName,
+      Key: key,
     });
     const getObjectResult = await this.client.send(getObjectCommand);
     if (!getObjectResult.Body) {
       throw new Error("Error fetching the artifact");
     }
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    return getObjectResult.Body.transformToWebStream() as any;
+    // Objects uploaded before the support of compression do not have the metadata, they are not compressed
+    const compression = getObjectResult.Metadata?.[COMPRESSION_METADATA_KEY];
+    return decompressArtifactStream(
+      await decryptArtifactStream(
+        getObjectResult.Body,
+        this.config.encryption ? () => this.getEncryptionKey() : undefined,
+      ),
+      isCompressionAlgorithm(compression) ? compression : "none",
+    );
+  }
+
+  /**
+   * Compress then, if configured, encrypt the content of an artifact
+   */
+  private async encodeArtifact(content: string): Promise<string | Buffer> {
+    const compressedContent = await compressArtifact(content, this.compression);
+    if (!this.config.encryption) {
+      return compressedContent;
+    }
+    return encryptArtifact(compressedContent, await this.getEncryptionKey());
+  }
+
+  /**
+   * The key is resolved once, when first needed
+   */
+  private getEncryptionKey(): Promise<Buffer> {
+    if (!this.encryptionKey) {
+      this.encryptionKey = resolveEncryptionKey(this.config.encryption || {});
+    }
+    return this.encryptionKey;
+  }
+
+  private async deleteExistingObjects(
+    keys: string[],
+    opts: { dryRun: boolean },
+  ): Promise<string[]> {
+    const existingKeys: string[] = [];
+    for (const key of keys) {
+      if (await this.hasObject(key)) {
+        existingKeys.push(key);
+      }
+    }
+    if (opts.dryRun || existingKeys.length === 0) {
+      return existingKeys;
+    }
+    const deleteCommand = new DeleteObjectsCommand({
+      Bucket: this.config.bucketName,
+      Delete: {
+        Objects: existingKeys.map((key) => ({ Key: key })),
+        Quiet: true,
+      },
+    });
+    const deleteResult = await this.client.send(deleteCommand);
+    if (deleteResult.Errors && deleteResult.Errors.length > 0) {
+      throw new Error(
+        `Failed to delete the objects: ${deleteResult.Errors.map((error) => `${error.Key} (${error.Code})`).join(", ")}`,
+      );
+    }
+    return existingKeys;
+  }
+
+  private async hasObject(key: string): Promise<boolean> {
+    const headCommand = new HeadObjectCommand({
+      Bucket: this.config.bucketName,
+      Key: key,
+    });
+    const headResult = await this.client.send(headCommand).catch((err) => {
+      if (err instanceof NotFound) {
+        return null;
+      }
+      throw err;
+    });
+    return Boolean(headResult);
+  }
+
+  /**
+   * Iterate over the keys under a prefix, following the continuation tokens of the S3 listing
+   * @param prefix Prefix of the keys, e.g. `projects/my-project/ids/`
+   * @yields The keys without the prefix and the `.json` extension
+   */
+  private async *listKeySuffixes(prefix: string): AsyncIterable<string> {
+    let continuationToken: string | undefined = undefined;
+    do {
+      const listCommand: ListObjectsV2Command = new ListObjectsV2Command({
+        Bucket: this.config.bucketName,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      });
+      const listResult = await this.client.send(listCommand);
+      for (const content of listResult.Contents ?? []) {
+        const key = content.Key;
+        if (!key) continue;
+        yield key.replace(prefix, "").replace(".json", "");
+      }
+      continuationToken = listResult.IsTruncated
+        ? listResult.NextContinuationToken
+        : undefined;
+    } while (continuationToken);
+  }
+}
+
+/**
+ * A conditional write fails with `412 Precondition Failed` if the object already exists, or with `409 Conflict` if a concurrent write on the same key is in progress
+ */
+function isConditionalWriteFailure(err: unknown): boolean {
+  if (!(err instanceof S3ServiceException)) {
+    return false;
+  }
+  const statusCode = err.$metadata.httpStatusCode;
+  return statusCode === 412 || statusCode === 409;
+}
+
+/**
+ * Resolve the credentials used by the S3 client.
+ *
+ * Static keys are used if configured, otherwise the credentials are resolved using the default provider chain of the AWS SDK, i.e. environment variables, shared config files and profiles, SSO, web identity tokens, container or instance roles.
+ * If a role ARN is configured, the resolved credentials are used in order to assume it.
+ */
+function resolveCredentials(
+  config: S3BucketProviderConfig,
+): AwsCredentialIdentityProvider {
+  let baseCredentials: AwsCredentialIdentityProvider;
+  if (config.accessKeyId && config.secretAccessKey) {
+    const staticCredentials: AwsCredentialIdentity = {
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+    };
+    baseCredentials = async () => staticCredentials;
+  } else {
+    baseCredentials = fromNodeProviderChain({ profile: config.profile });
   }
+
+  const credentials = config.roleArn
+    ? fromTemporaryCredentials({
+        params: {
+          RoleArn: config.roleArn,
+          RoleSessionName: "hardhat-soko",
+        },
+        masterCredentials: baseCredentials,
+        clientConfig: { region: config.bucketRegion },
+      })
+    : baseCredentials;
+
+  return (identityProperties) =>
+    credentials(identityProperties).catch((err) => {
+      const source = config.profile
+        ? `the AWS profile "${config.profile}"`
+        : "the AWS default provider chain";
+      const roleSuffix = config.roleArn
+        ? ` and assume the role "${config.roleArn}"`
+        : "";
+      throw new ScriptError(
+        `Unable to resolve AWS credentials using ${config.accessKeyId ? "the configured access keys" : source}${roleSuffix}. Configure \`awsAccessKeyId\` and \`awsSecretAccessKey\`, an \`awsProfile\`, or make credentials available in the environment (environment variables, shared config files, SSO session, container or instance role). Reason: ${err instanceof Error ? err.message : err}`,
+      );
+    });
 }
@@ -0,0 +1,381 @@
+import { z } from "zod";
+import {
+  retrieveFreshCompilationArtifact,
+  ScriptError,
+  toAsyncResult,
+  ZBuildInfo,
+} from "../utils";
+import { extractBuildInfos } from "../artifact-bundle";
+import { StorageProvider } from "../storage-provider";
+import { LocalStorageProvider } from "./local-storage-provider";
+import { SignatureVerificationOptions } from "./pull";
+import { retrievePulledBuildInfos } from "./retrieve-pulled-artifacts";
+
+/**
+ * Unsafe change of the storage layout of a contract:
+ * - `removed`: a variable of the released layout no longer exists,
+ * - `reordered`: a variable of the released layout has moved to another slot or offset,
+ * - `retyped`: the type of the variable at a slot and offset has changed,
+ * - `inheritance`: the variable at a slot and offset is now declared by another contract of the inheritance chain,
+ * - `gap`: a storage gap has been removed, or its size has changed without preserving the slots following it.
+ */
+export type StorageLayoutIssue = {
+  path: string;
+  name: string;
+  kind: "removed" | "reordered" | "retyped" | "inheritance" | "gap";
+  // Label of the variable of the released layout
+  label: string;
+  slot: string;
+  offset: number;
+  reason: string;
+};
+
+export type SkippedStorageLayout = {
+  path: string;
+  name: string;
+  reason: string;
+};
+
+const ZStorageEntry = z.object({
+  contract: z.string(),
+  label: z.string(),
+  offset: z.number(),
+  slot: z.string(),
+  type: z.string(),
+});
+type StorageEntry = z.infer<typeof ZStorageEntry>;
+
+type StorageType = {
+  encoding?: string;
+  label?: string;
+  numberOfBytes?: string;
+  base?: string;
+  key?: string;
+  value?: string;
+  members?: StorageEntry[];
+};
+
+type StorageLayout = {
+  storage: StorageEntry[];
+  types: Record<string, StorageType>;
+};
+
+const ZStorageLayout = z.object({
+  storage: z.array(ZStorageEntry),
+  types: z
+    .record(
+      z.string(),
+      z
+        .object({
+          encoding: z.string().optional(),
+          label: z.string().optional(),
+          numberOfBytes: z.string().optional(),
+          base: z.string().optional(),
+          key: z.string().optional(),
+          value: z.string().optional(),
+          members: z.array(ZStorageEntry).optional(),
+        })
+        .passthrough(),
+    )
+    .nullable()
+    .transform((types) => types ?? {}),
+});
+
+// Variables reserving slots for future versions, e.g. `uint256[50] private __gap`
+const GAP_LABEL_PREFIX = "__gap";
+
+/**
+ * This script compares the storage layouts of the contracts of a fresh compilation with the ones of a pulled artifact, in order to detect unsafe upgrades.
+ *
+ * The storage layouts are part of the build info when `storageLayout` is in the output selection of the compilation.
+ *
+ * For each contract existing in both compilations, every variable of the released layout must keep its slot, its offset, its type and its declaring contract.
+ * New variables can be appended after the released layout or take the place of a part of a storage gap, as long as the slots following the gap are preserved.
+ * Renamed variables are not reported.
+ * @param artifactPath The compilation artifact path
+ * @param artifact The project and the tag or ID of the artifact, pulled if missing and if the storage provider is given
+ * @param opts.contracts Restrict the check to these contracts, formatted as `<file path>:<contract name>`
+ * @param opts.signatureVerification Verification of the signature of the missing artifact when pulled
+ * @param storageProvider The storage provider, used to pull the missing artifact
+ * @returns The unsafe changes, the contracts that can not be checked and the number of checked contracts
+ */
+export async function checkStorageLayouts(
+  artifactPath: string,
+  artifact: { project: string; tagOrId: string },
+  opts: {
+    contracts?: string[];
+    debug?: boolean;
+    signatureVerification?: SignatureVerificationOptions;
+  },
+  localProvider: LocalStorageProvider,
+  storageProvider?: StorageProvider,
+): Promise<{
+  checkedContracts: number;
+  issues: StorageLayoutIssue[];
+  skipped: SkippedStorageLayout[];
+}> {
+  const freshBuildInfoResult = await toAsyncResult(
+    retrieveFreshCompilationArtifact(artifactPath),
+    { debug: opts.debug },
+  );
+  if (!freshBuildInfoResult.success) {
+    throw new ScriptError(
+      `Error retrieving the build info for the compilation.`,
+    );
+  }
+  if (freshBuildInfoResult.value.status === "error") {
+    throw new ScriptError(
+      `Error retrieving the build info for the compilation: ${freshBuildInfoResult.value.reason}`,
+    );
+  }
+
+  const [releasedBuildInfos] = await retrievePulledBuildInfos(
+    [artifact],
+    opts,
+    localProvider,
+    storageProvider,
+  );
+
+  let freshLayouts: Map<string, StorageLayout | undefined>;
+  let releasedLayouts: Map<string, StorageLayout | undefined>;
+  try {
+    freshLayouts = collectStorageLayouts(
+      extractBuildInfos(JSON.parse(freshBuildInfoResult.value.content)),
+    );
+    releasedLayouts = collectStorageLayouts(releasedBuildInfos);
+  } catch (err) {
+    if (opts.debug) {
+      console.error(err);
+    }
+    throw new ScriptError("Error parsing the storage layouts of the contracts");
+  }
+
+  if (opts.contracts) {
+    const unknownContract = opts.contracts.find(
+      (contract) => !releasedLayouts.has(contract),
+    );
+    if (unknownContract) {
+      throw new ScriptError(
+        `The contract "${unknownContract}" is not part of the artifact "${artifact.project}:${artifact.tagOrId}"`,
+      );
+    }
+  }
+
+  let checkedContracts = 0;
+  const issues: StorageLayoutIssue[] = [];
+  const skipped: SkippedStorageLayout[] = [];
+  for (const [contractKey, releasedLayout] of releasedLayouts) {
+    if (opts.contracts && !opts.contracts.includes(contractKey)) {
+      continue;
+    }
+    const { path, name } = parseContractKey(contractKey);
+    if (!freshLayouts.has(contractKey)) {
+      // A contract removed from the compilation is not upgraded
+      continue;
+    }
+    const freshLayout = freshLayouts.get(contractKey);
+    if (!releasedLayout) {
+      skipped.push({
+        path,
+        name,
+        reason: "the artifact does not contain the storage layout",
+      });
+      continue;
+    }
+    if (!freshLayout) {
+      skipped.push({
+        path,
+        name,
+        reason:
+          "the fresh compilation does not contain the storage layout, `storageLayout` must be part of the output selection",
+      });
+      continue;
+    }
+    checkedContracts++;
+    for (const issue of compareStorageLayouts(releasedLayout, freshLayout)) {
+      issues.push({ path, name, ...issue });
+    }
+  }
+
+  return { checkedContracts, issues, skipped };
+}
+
+/**
+ * A contract part of multiple build infos of a bundle is resolved using the first build info containing it
+ */
+function collectStorageLayouts(
+  rawBuildInfos: unknown[],
+): Map<string, StorageLayout | undefined> {
+  const layouts = new Map<string, StorageLayout | undefined>();
+  for (const rawBuildInfo of rawBuildInfos) {
+    const buildInfo = ZBuildInfo.parse(rawBuildInfo);
+    for (const contractPath in buildInfo.output.contracts) {
+      const contracts = buildInfo.output.contracts[contractPath];
+      for (const contractName in contracts) {
+        const key = `${contractPath}:${contractName}`;
+        if (layouts.has(key)) continue;
+        const storageLayout = contracts[contractName].storageLayout;
+        layouts.set(
+          key,
+          storageLayout ? ZStorageLayout.parse(storageLayout) : undefined,
+        );
+      }
+    }
+  }
+  return layouts;
+}
+
+function parseContractKey(key: string): { path: string; name: string } {
+  const separatorIndex = key.lastIndexOf(":");
+  return {
+    path: key.substring(0, separatorIndex),
+    name: key.substring(separatorIndex + 1),
+  };
+}
+
+function compareStorageLayouts(
+  released: StorageLayout,
+  fresh: StorageLayout,
+): Omit<StorageLayoutIssue, "path" | "name">[] {
+  const issues: Omit<StorageLayoutIssue, "path" | "name">[] = [];
+  const findFreshEntry = (predicate: (entry: StorageEntry) => boolean) =>
+    fresh.storage.find(predicate);
+
+  for (const releasedEntry of released.storage) {
+    const location = {
+      label: releasedEntry.label,
+      slot: releasedEntry.slot,
+      offset: releasedEntry.offset,
+    };
+    const releasedType = describeType(released.types, releasedEntry.type);
+
+    if (releasedEntry.label.startsWith(GAP_LABEL_PREFIX)) {
+      const freshGap = findFreshEntry(
+        (entry) =>
+          entry.label === releasedEntry.label &&
+          entry.contract === releasedEntry.contract,
+      );
+      if (!freshGap) {
+        issues.push({
+          ...location,
+          kind: "gap",
+          reason: "the storage gap has been removed",
+        });
+        continue;
+      }
+      const releasedEnd = computeEndByte(released.types, releasedEntry);
+      const freshEnd = computeEndByte(fresh.types, freshGap);
+      if (releasedEnd !== freshEnd) {
+        issues.push({
+          ...location,
+          kind: "gap",
+          reason: `the storage gap ends at byte ${freshEnd} instead of ${releasedEnd}, the slots following the gap are shifted`,
+        });
+      }
+      continue;
+    }
+
+    const sameLocationEntry = findFreshEntry(
+      (entry) =>
+        entry.slot === releasedEntry.slot &&
+        entry.offset === releasedEntry.offset,
+    );
+    const sameLabelEntry = findFreshEntry(
+      (entry) =>
+        entry.label === releasedEntry.label &&
+        entry.contract === releasedEntry.contract,
+    );
+
+    if (!sameLocationEntry || sameLocationEntry.label !== releasedEntry.label) {
+      if (sameLabelEntry) {
+        issues.push({
+          ...location,
+          kind: "reordered",
+          reason: `the variable has moved to slot ${sameLabelEntry.slot} and offset ${sameLabelEntry.offset}`,
+        });
+        continue;
+      }
+      if (!sameLocationEntry) {
+        issues.push({
+          ...location,
+          kind: "removed",
+          reason: "the variable has been removed",
+        });
+        continue;
+      }
+    }
+
+    // The variable is at the same location, possibly renamed
+    const freshType = describeType(fresh.types, sameLocationEntry.type);
+    if (freshType !== releasedType) {
+      issues.push({
+        ...location,
+        kind: "retyped",
+        reason: `the type has changed from "${formatTypeLabel(released.types, releasedEntry.type)}" to "${formatTypeLabel(fresh.types, sameLocationEntry.type)}"`,
+      });
+      continue;
+    }
+    if (sameLocationEntry.contract !== releasedEntry.contract) {
+      issues.push({
+        ...location,
+        kind: "inheritance",
+        reason: `the variable was declared by "${releasedEntry.contract}" and is now declared by "${sameLocationEntry.contract}"`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+function computeEndByte(
+  types: StorageLayout["types"],
+  entry: StorageEntry,
+): bigint {
+  const numberOfBytes = BigInt(types[entry.type]?.numberOfBytes ?? "0");
+  return BigInt(entry.slot) * BigInt(32) + BigInt(entry.offset) + numberOfBytes;
+}
+
+function formatTypeLabel(types: StorageLayout["types"], typeId: string) {
+  return types[typeId]?.label ?? typeId;
+}
+
+/**
+ * Describe a type by its structure, the identifiers of the types depend on the AST and can not be compared between compilations
+ *
+ * The names of the structs and of the enums are left out, renaming them does not change the storage.
+ */
+function describeType(
+  types: StorageLayout["types"],
+  typeId: string,
+  visitedTypeIds: string[] = [],
+): string {
+  const type = types[typeId];
+  if (!type) {
+    return typeId;
+  }
+  if (visitedTypeIds.includes(typeId)) {
+    return `recursive(${visitedTypeIds.indexOf(typeId)})`;
+  }
+  const nextVisitedTypeIds = [...visitedTypeIds, typeId];
+  const size = `${type.encoding}/${type.numberOfBytes}`;
+  if (type.members) {
+    const members = type.members.map(
+      (member) =>
+        `${member.slot}:${member.offset}:${describeType(types, member.type, nextVisitedTypeIds)}`,
+    );
+    return `struct(${size}){${members.join(",")}}`;
+  }
+  if (type.key && type.value) {
+    return `mapping(${describeType(types, type.key, nextVisitedTypeIds)}=>${describeType(types, type.value, nextVisitedTypeIds)})`;
+  }
+  if (type.base) {
+    return `array(${size})[${describeType(types, type.base, nextVisitedTypeIds)}]`;
+  }
+  if (type.label?.startsWith("enum ")) {
+    return `enum(${size})`;
+  }
+  if (type.label?.startsWith("contract ")) {
+    return `address(${size})`;
+  }
+  return `${type.label}(${size})`;
+}
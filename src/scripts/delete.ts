@@ -0,0 +1,157 @@
+import { StorageProvider } from "../storage-provider";
+import { ScriptError, toAsyncResult } from "../utils";
+import { LocalStorageProvider } from "./local-storage-provider";
+
+type DeletionResult = {
+  // Keys deleted, or to be deleted, in the storage
+  remoteKeys: string[];
+  // Paths deleted, or to be deleted, in the local pulled artifacts
+  localPaths: string[];
+};
+
+/**
+ * Remove a tag from the storage and from the pulled artifacts, the artifact ID it points to is kept
+ * @param project The project name
+ * @param tag The tag to remove
+ * @param opts.dryRun If enabled, nothing is deleted and the keys that would be deleted are returned
+ * @param opts.debug Whether to enable debug mode
+ * @param localProvider The local storage provider
+ * @param storageProvider The storage provider
+ * @returns The deleted keys and paths
+ */
+export async function untagArtifact(
+  project: string,
+  tag: string,
+  opts: { dryRun: boolean; debug: boolean },
+  localProvider: LocalStorageProvider,
+  storageProvider: StorageProvider,
+): Promise<DeletionResult> {
+  const hasTagResult = await toAsyncResult(
+    storageProvider.hasArtifactByTag(project, tag),
+    { debug: opts.debug },
+  );
+  if (!hasTagResult.success) {
+    if (hasTagResult.error instanceof ScriptError) {
+      throw hasTagResult.error;
+    }
+    throw new ScriptError(
+      `Error checking if the tag "${tag}" exists on the storage`,
+    );
+  }
+  if (!hasTagResult.value) {
+    throw new ScriptError(`The tag "${tag}" does not exist on the storage`);
+  }
+
+  const remoteDeletionResult = await toAsyncResult(
+    storageProvider.deleteTag(project, tag, { dryRun: opts.dryRun }),
+    { debug: opts.debug },
+  );
+  if (!remoteDeletionResult.success) {
+    throw new ScriptError(`Error removing the tag "${tag}" from the storage`);
+  }
+
+  const localDeletionResult = await toAsyncResult(
+    localProvider.deleteTag(project, tag, { dryRun: opts.dryRun }),
+    { debug: opts.debug },
+  );
+  if (!localDeletionResult.success) {
+    throw new ScriptError(
+      `The tag "${tag}" has been removed from the storage but an error occurred while removing it locally`,
+    );
+  }
+
+  return {
+    remoteKeys: remoteDeletionResult.value,
+    localPaths: localDeletionResult.value,
+  };
+}
+
+/**
+ * Delete an artifact ID from the storage and from the pulled artifacts
+ *
+ * The deletion is refused if tags of the storage still point to the ID, unless forced. The tags are never deleted.
+ * @param project The project name
+ * @param id The ID to delete
+ * @param opts.force Whether to delete the ID even if tags point to it
+ * @param opts.dryRun If enabled, nothing is deleted and the keys that would be deleted are returned
+ * @param opts.debug Whether to enable debug mode
+ * @param localProvider The local storage provider
+ * @param storageProvider The storage provider
+ * @returns The deleted keys and paths
+ */
+export async function deleteArtifact(
+  project: string,
+  id: string,
+  opts: { force: boolean; dryRun: boolean; debug: boolean },
+  localProvider: LocalStorageProvider,
+  storageProvider: StorageProvider,
+): Promise<DeletionResult> {
+  const hasIdResult = await toAsyncResult(
+    storageProvider.hasArtifactById(project, id),
+    { debug: opts.debug },
+  );
+  if (!hasIdResult.success) {
+    if (hasIdResult.error instanceof ScriptError) {
+      throw hasIdResult.error;
+    }
+    throw new ScriptError(
+      `Error checking if the ID "${id}" exists on the storage`,
+    );
+  }
+  if (!hasIdResult.value) {
+    throw new ScriptError(`The ID "${id}" does not exist on the storage`);
+  }
+
+  const referencingTagsResult = await toAsyncResult(
+    findTagsPointingToId(project, id, storageProvider),
+    { debug: opts.debug },
+  );
+  if (!referencingTagsResult.success) {
+    throw new ScriptError(
+      `Error retrieving the tags pointing to the ID "${id}"`,
+    );
+  }
+  if (referencingTagsResult.value.length > 0 && !opts.force) {
+    throw new ScriptError(
+      `The ID "${id}" is still referenced by the tags ${referencingTagsResult.value.map((tag) => `"${tag}"`).join(", ")}. Please, remove the tags first or use the force flag to delete the ID anyway, the tags are kept.`,
+    );
+  }
+
+  const remoteDeletionResult = await toAsyncResult(
+    storageProvider.deleteId(project, id, { dryRun: opts.dryRun }),
+    { debug: opts.debug },
+  );
+  if (!remoteDeletionResult.success) {
+    throw new ScriptError(`Error deleting the ID "${id}" from the storage`);
+  }
+
+  const localDeletionResult = await toAsyncResult(
+    localProvider.deleteId(project, id, { dryRun: opts.dryRun }),
+    { debug: opts.debug },
+  );
+  if (!localDeletionResult.success) {
+    throw new ScriptError(
+      `The ID "${id}" has been deleted from the storage but an error occurred while deleting it locally`,
+    );
+  }
+
+  return {
+    remoteKeys: remoteDeletionResult.value,
+    localPaths: localDeletionResult.value,
+  };
+}
+
+async function findTagsPointingToId(
+  project: string,
+  id: string,
+  storageProvider: StorageProvider,
+): Promise<string[]> {
+  const tags: string[] = [];
+  for await (const tag of storageProvider.listTags(project)) {
+    const tagId = await storageProvider.retrieveArtifactIdByTag(project, tag);
+    if (tagId === id) {
+      tags.push(tag);
+    }
+  }
+  return tags;
+}
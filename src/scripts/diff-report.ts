@@ -0,0 +1,177 @@
+import { AbiItemChange, Difference } from "./diff";
+
+export const DIFF_REPORT_FORMATS = ["text", "json", "markdown"] as const;
+export type DiffReportFormat = (typeof DIFF_REPORT_FORMATS)[number];
+
+/**
+ * Report of the `diff` task, the JSON format is the serialization of this report.
+ *
+ * The schema is stable, `schemaVersion` is incremented on any breaking change:
+ * ```json
+ * {
+ *   "schemaVersion": 1,
+ *   "source": { "type": "compilation", "artifactPath": "./artifacts" },
+ *   "target": { "project": "my-project", "tagOrId": "v1.2.3" },
+ *   "summary": { "added": 0, "removed": 0, "changed": 1, "metadata-only": 0 },
+ *   "differences": [
+ *     {
+ *       "path": "src/Foo.sol",
+ *       "name": "Foo",
+ *       "status": "changed",
+ *       "changes": {
+ *         "abi": [{ "kind": "added", "signature": "function bar()" }],
+ *         "bytecode": true,
+ *         "metadata": true
+ *       }
+ *     }
+ *   ]
+ * }
+ * ```
+ * The source is either a compilation, `{ "type": "compilation", "artifactPath": string }`, or a pulled artifact, `{ "type": "artifact", "project": string, "tagOrId": string }`.
+ * See `Difference` for the description of a difference.
+ */
+export type DiffReport = {
+  schemaVersion: 1;
+  source:
+    | { type: "compilation"; artifactPath: string }
+    | { type: "artifact"; project: string; tagOrId: string };
+  target: { project: string; tagOrId: string };
+  summary: Record<Difference["status"], number>;
+  differences: Difference[];
+};
+
+export function createDiffReport(
+  source: DiffReport["source"],
+  target: DiffReport["target"],
+  differences: Difference[],
+): DiffReport {
+  const summary = { added: 0, removed: 0, changed: 0, "metadata-only": 0 };
+  for (const difference of differences) {
+    summary[difference.status]++;
+  }
+  return { schemaVersion: 1, source, target, summary, differences };
+}
+
+/**
+ * Format a diff report, the text format is the one printed by the `diff` task
+ * @param report The diff report
+ * @param format The format of the output
+ * @returns The formatted report
+ */
+export function formatDiffReport(
+  report: DiffReport,
+  format: DiffReportFormat,
+): string {
+  switch (format) {
+    case "json":
+      return `${JSON.stringify(report, null, 2)}\n`;
+    case "markdown":
+      return formatMarkdownReport(report);
+    case "text":
+      return formatTextReport(report);
+  }
+}
+
+function formatTextReport(report: DiffReport): string {
+  if (report.differences.length === 0) {
+    return "No differences found\n";
+  }
+  const lines = ["Differences found:"];
+  for (const difference of report.differences) {
+    lines.push(
+      ` - ${difference.name} (${difference.path}): ${difference.status}`,
+    );
+    if (!difference.changes) continue;
+    for (const change of difference.changes.abi) {
+      lines.push(`     ${formatTextAbiChange(change)}`);
+    }
+    if (difference.changes.bytecode) {
+      lines.push("     bytecode differs");
+    }
+    if (difference.changes.metadata) {
+      lines.push("     metadata differs");
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function formatTextAbiChange(change: AbiItemChange): string {
+  switch (change.kind) {
+    case "added":
+      return `+ ${change.signature}`;
+    case "removed":
+      return `- ${change.signature}`;
+    case "signature":
+      return `~ ${change.before} -> ${change.after}`;
+    case "mutability":
+    case "outputs":
+      return `~ ${change.signature}: ${change.kind} ${change.before} -> ${change.after}`;
+    case "definition":
+      return `~ ${change.signature}: definition changed`;
+  }
+}
+
+function formatMarkdownReport(report: DiffReport): string {
+  const source =
+    report.source.type === "compilation"
+      ? `the compilation at \`${report.source.artifactPath}\``
+      : `\`${report.source.project}:${report.source.tagOrId}\``;
+  const lines = [
+    "## Contract differences",
+    "",
+    `Comparing ${source} with \`${report.target.project}:${report.target.tagOrId}\`.`,
+    "",
+  ];
+  if (report.differences.length === 0) {
+    lines.push("No differences found.");
+    return `${lines.join("\n")}\n`;
+  }
+
+  lines.push(
+    `${report.summary.added} added, ${report.summary.removed} removed, ${report.summary.changed} changed, ${report.summary["metadata-only"]} with metadata-only changes.`,
+    "",
+    "| Contract | Path | Status |",
+    "| --- | --- | --- |",
+  );
+  for (const difference of report.differences) {
+    lines.push(
+      `| ${escapeMarkdownCell(difference.name)} | \`${escapeMarkdownCell(difference.path)}\` | ${difference.status} |`,
+    );
+  }
+
+  for (const difference of report.differences) {
+    if (!difference.changes) continue;
+    lines.push("", `### ${difference.name} (\`${difference.path}\`)`, "");
+    for (const change of difference.changes.abi) {
+      lines.push(`- ${formatMarkdownAbiChange(change)}`);
+    }
+    if (difference.changes.bytecode) {
+      lines.push("- Bytecode differs");
+    }
+    if (difference.changes.metadata) {
+      lines.push("- Metadata differs");
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function formatMarkdownAbiChange(change: AbiItemChange): string {
+  switch (change.kind) {
+    case "added":
+      return `Added \`${change.signature}\``;
+    case "removed":
+      return `Removed \`${change.signature}\``;
+    case "signature":
+      return `Signature changed from \`${change.before}\` to \`${change.after}\``;
+    case "mutability":
+      return `State mutability of \`${change.signature}\` changed from \`${change.before}\` to \`${change.after}\``;
+    case "outputs":
+      return `Outputs of \`${change.signature}\` changed from \`${change.before}\` to \`${change.after}\``;
+    case "definition":
+      return `Definition of \`${change.signature}\` changed`;
+  }
+}
+
+function escapeMarkdownCell(value: string): string {
+  return value.replace(/\|/g, "\\|");
+}
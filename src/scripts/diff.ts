@@ -1,4 +1,3 @@
-import { createHash } from "node:crypto";
 import {
   ZBuildInfo,
   type CompilerOutputContract,
@@ -6,13 +5,18 @@ import {
   retrieveFreshCompilationArtifact,
   ScriptError,
 } from "../utils";
+import { StorageProvider } from "../storage-provider";
 import { LocalStorageProvider } from "./local-storage-provider";
+import { SignatureVerificationOptions } from "./pull";
+import { retrievePulledBuildInfos } from "./retrieve-pulled-artifacts";
+import { extractBuildInfos } from "../artifact-bundle";
+import { stripMetadata } from "../bytecode";
 
 /**
- * This script generates the differences between the artifacts generated by a fresh compilation and the ones of a pulled artifact.
+ * This script generates the differences between the artifacts generated by a fresh compilation, or the ones of another pulled artifact, and the ones of a pulled artifact.
  *
- * The fresh artifacts are represented by the file at `artifacts/build-info/<build info hash>.json`.
- * The `latest` artifacts are represented by the file at `<Soko directory>/<release>/build-info.json`.
+ * The fresh artifacts are represented by the files at `artifacts/build-info/<build info hash>.json`, multiple files are compared as a bundle.
+ * The pulled artifacts are represented by the files at `<Soko directory>/<project>/tags/<tag>.json` or `<Soko directory>/<project>/ids/<id>.json`, an artifact pushed as a bundle holds multiple build infos.
  *
  * For each build info file, the script will parse the `output.contracts` object.
  * This object contains as keys the path of a contract file and as values the contracts within it, i.e.
@@ -64,58 +68,86 @@ import { LocalStorageProvider } from "./local-storage-provider";
  * }
  * ```
  *
- * For each contract, a hash is computed based on
- * - stringified abi,
- * - bytecode object,
- * - metadata
- * This hash is stored in a map with the `<file path><separator constant><contract name>` as key.
+ * For each contract, the ABI, the bytecodes and the metadata are retrieved.
+ * They are stored in a map with the `<file path><separator constant><contract name>` as key.
  *
  * Comparing the two maps, the script will output the differences between the two sets of contracts.
+ * For a changed contract, the differences are broken down into the changes of the ABI items and whether the bytecode or the metadata differ.
  */
-type Difference = {
+export type Difference = {
   path: string;
   name: string;
-  status: "added" | "removed" | "changed";
+  // `metadata-only` is only used when the metadata is ignored, the ABI and the executable code are then unchanged
+  status: "added" | "removed" | "changed" | "metadata-only";
+  // Only present for a changed contract
+  changes?: ContractChanges;
 };
+
+export type ContractChanges = {
+  // Changes of the ABI items, the items are matched using their type and their signature, e.g. `function transfer(address,uint256)`
+  abi: AbiItemChange[];
+  // Whether the creation or the deployed bytecode differs, only the executable code is compared when the metadata is ignored
+  bytecode: boolean;
+  // Whether the metadata differs, including the metadata suffix of the bytecodes when the metadata is ignored
+  metadata: boolean;
+};
+
+/**
+ * Change of an ABI item:
+ * - `added` or `removed`: the item exists in only one of the compilations,
+ * - `signature`: the inputs of the only item of a type and name have changed, e.g. `function foo(uint256)` becoming `function foo(uint256,address)`,
+ * - `mutability`: the state mutability of a function has changed, e.g. `view` becoming `nonpayable`,
+ * - `outputs`: the output types of a function have changed,
+ * - `definition`: any other change of an item with the same signature, e.g. the name of a parameter or an indexed parameter of an event.
+ *
+ * `before` and `after` hold the changed part, i.e. the signature, the state mutability, the output types or the serialized item.
+ */
+export type AbiItemChange =
+  | {
+      kind: "added" | "removed";
+      signature: string;
+    }
+  | {
+      kind: "signature" | "mutability" | "outputs" | "definition";
+      signature: string;
+      before: string;
+      after: string;
+    };
+
+type ComparedContract = Pick<CompilerOutputContract, "abi" | "metadata"> & {
+  bytecode: string;
+  deployedBytecode: string | undefined;
+};
+
+type DiffOptions = {
+  debug?: boolean;
+  ignoreMetadata?: boolean;
+  // Pull the missing artifacts into a temporary directory, removed once the artifacts are compared, instead of the local storage
+  temporaryPull?: boolean;
+  signatureVerification?: SignatureVerificationOptions;
+};
+
+/**
+ * Generate the differences between a fresh compilation and a pulled artifact
+ *
+ * If the storage provider is given, the artifact is pulled when it is missing locally.
+ * @param artifactPath The compilation artifact path
+ * @param artifact The project and the tag or ID of the target artifact
+ * @param opts.debug Whether to enable debug mode
+ * @param opts.ignoreMetadata Whether to compare the executable code only
+ * @param opts.temporaryPull Whether to pull the missing artifact into a temporary directory instead of the local storage
+ * @param opts.signatureVerification Verification of the signature of the missing artifact when pulled
+ * @param localProvider The local storage provider
+ * @param storageProvider The storage provider, used to pull the missing artifact
+ * @returns The differences
+ */
 export async function generateDiffWithTargetRelease(
   artifactPath: string,
   artifact: { project: string; tagOrId: string },
-  opts: { debug?: boolean } = {},
+  opts: DiffOptions = {},
   localProvider: LocalStorageProvider,
+  storageProvider?: StorageProvider,
 ): Promise<Difference[]> {
-  let type: "tag" | "id" | undefined = undefined;
-  const isIdResult = await toAsyncResult(
-    localProvider.hasId(artifact.project, artifact.tagOrId),
-    { debug: opts.debug },
-  );
-  if (!isIdResult.success) {
-    throw new ScriptError(
-      `Error checking if the artifact is an ID: ${isIdResult.error}`,
-    );
-  }
-  if (isIdResult.value) {
-    type = "id";
-  }
-
-  const isTagResult = await toAsyncResult(
-    localProvider.hasTag(artifact.project, artifact.tagOrId),
-    { debug: opts.debug },
-  );
-  if (!isTagResult.success) {
-    throw new ScriptError(
-      `Error checking if the artifact is a tag: ${isTagResult.error}`,
-    );
-  }
-  if (isTagResult.value) {
-    type = "tag";
-  }
-
-  if (!type) {
-    throw new ScriptError(
-      `The artifact "${artifact.project}:${artifact.tagOrId}" has not been found locally. Please, make sure to have the artifact locally before running the diff command.`,
-    );
-  }
-
   const freshBuildInfoResult = await toAsyncResult(
     retrieveFreshCompilationArtifact(artifactPath),
   );
@@ -136,63 +168,135 @@ export async function generateDiffWithTargetRelease(
     );
   }
 
-  const virtualReleaseContractHashesResult = await toAsyncResult(
-    generateContractHashes(freshBuildInfoResult.value.content),
+  const virtualReleaseContractsResult = await toAsyncResult(
+    collectContracts(
+      extractBuildInfos(JSON.parse(freshBuildInfoResult.value.content)),
+    ),
     opts,
   );
-  if (!virtualReleaseContractHashesResult.success) {
+  if (!virtualReleaseContractsResult.success) {
     throw new Error(
-      `Error generating virtual release contract hashes: ${virtualReleaseContractHashesResult.error}`,
+      `Error collecting virtual release contracts: ${virtualReleaseContractsResult.error}`,
     );
   }
 
-  const artifactContentResult = await toAsyncResult(
-    type === "tag"
-      ? localProvider.retrieveArtifactByTag(artifact.project, artifact.tagOrId)
-      : localProvider.retrieveArtifactById(artifact.project, artifact.tagOrId),
+  const [targetBuildInfos] = await retrievePulledBuildInfos(
+    [artifact],
+    opts,
+    localProvider,
+    storageProvider,
+  );
+
+  const targetReleaseContractsResult = await toAsyncResult(
+    collectContracts(targetBuildInfos),
     opts,
   );
-  if (!artifactContentResult.success) {
+  if (!targetReleaseContractsResult.success) {
     throw new Error(
-      `Unable to retrieve the artifact content: ${artifactContentResult.error}`,
+      `Error collecting target release contracts: ${targetReleaseContractsResult.error}`,
     );
   }
 
-  const targetReleaseContractHashesResult = await toAsyncResult(
-    generateContractHashes(JSON.stringify(artifactContentResult.value)),
+  return compareContractSets(
+    virtualReleaseContractsResult.value,
+    targetReleaseContractsResult.value,
     opts,
   );
-  if (!targetReleaseContractHashesResult.success) {
+}
+
+/**
+ * Generate the differences between two pulled artifacts, e.g. two releases of a project or a tag and an ID of another project
+ *
+ * The differences are expressed from the target artifact to the compared artifact, i.e. an `added` contract only exists in the compared artifact.
+ * If the storage provider is given, the artifacts are pulled when they are missing locally.
+ * @param artifact The project and the tag or ID of the compared artifact
+ * @param targetArtifact The project and the tag or ID of the target artifact
+ * @param opts.debug Whether to enable debug mode
+ * @param opts.ignoreMetadata Whether to compare the executable code only
+ * @param opts.temporaryPull Whether to pull the missing artifacts into a temporary directory instead of the local storage
+ * @param opts.signatureVerification Verification of the signatures of the missing artifacts when pulled
+ * @param localProvider The local storage provider
+ * @param storageProvider The storage provider, used to pull the missing artifacts
+ * @returns The differences
+ */
+export async function generateDiffBetweenArtifacts(
+  artifact: { project: string; tagOrId: string },
+  targetArtifact: { project: string; tagOrId: string },
+  opts: DiffOptions = {},
+  localProvider: LocalStorageProvider,
+  storageProvider?: StorageProvider,
+): Promise<Difference[]> {
+  const [buildInfos, targetBuildInfos] = await retrievePulledBuildInfos(
+    [artifact, targetArtifact],
+    opts,
+    localProvider,
+    storageProvider,
+  );
+
+  const contractsResult = await toAsyncResult(
+    collectContracts(buildInfos),
+    opts,
+  );
+  if (!contractsResult.success) {
     throw new Error(
-      `Error generating target release contract hashes: ${targetReleaseContractHashesResult.error}`,
+      `Error collecting the contracts of "${artifact.project}:${artifact.tagOrId}": ${contractsResult.error}`,
     );
   }
 
+  const targetContractsResult = await toAsyncResult(
+    collectContracts(targetBuildInfos),
+    opts,
+  );
+  if (!targetContractsResult.success) {
+    throw new Error(
+      `Error collecting the contracts of "${targetArtifact.project}:${targetArtifact.tagOrId}": ${targetContractsResult.error}`,
+    );
+  }
+
+  return compareContractSets(
+    contractsResult.value,
+    targetContractsResult.value,
+    opts,
+  );
+}
+
+function compareContractSets(
+  contracts: Map<string, ComparedContract>,
+  targetContracts: Map<string, ComparedContract>,
+  opts: { ignoreMetadata?: boolean },
+): Difference[] {
   const differences: Difference[] = [];
-  for (const [
-    contractKey,
-    contractHash,
-  ] of virtualReleaseContractHashesResult.value.entries()) {
+  for (const [contractKey, contract] of contracts.entries()) {
     const { contractPath, contractName } = parseKey(contractKey);
-    const targetReleaseHash =
-      targetReleaseContractHashesResult.value.get(contractKey);
-    if (!targetReleaseHash) {
+    const targetContract = targetContracts.get(contractKey);
+    if (!targetContract) {
       differences.push({
         path: contractPath,
         name: contractName,
         status: "added",
       });
-    } else if (targetReleaseHash !== contractHash) {
+      continue;
+    }
+    const changes = compareContracts(targetContract, contract, opts);
+    if (changes.abi.length > 0 || changes.bytecode) {
       differences.push({
         path: contractPath,
         name: contractName,
         status: "changed",
+        changes,
+      });
+    } else if (changes.metadata) {
+      differences.push({
+        path: contractPath,
+        name: contractName,
+        status: opts.ignoreMetadata ? "metadata-only" : "changed",
+        changes,
       });
     }
   }
 
-  for (const contractKey of targetReleaseContractHashesResult.value.keys()) {
-    if (!virtualReleaseContractHashesResult.value.has(contractKey)) {
+  for (const contractKey of targetContracts.keys()) {
+    if (!contracts.has(contractKey)) {
       const { contractPath, contractName } = parseKey(contractKey);
       differences.push({
         path: contractPath,
@@ -205,46 +309,196 @@ export async function generateDiffWithTargetRelease(
   return differences;
 }
 
-async function generateContractHashes(
-  buildInfoContent: string,
-): Promise<Map<string, string>> {
-  const buildInfoResult = ZBuildInfo.passthrough().safeParse(
-    JSON.parse(buildInfoContent),
-  );
-  if (!buildInfoResult.success) {
-    throw new Error(`Invalid build info file: ${buildInfoResult.error}`);
-  }
+/**
+ * A contract part of multiple build infos of a bundle is resolved using the first build info containing it
+ */
+async function collectContracts(
+  rawBuildInfos: unknown[],
+): Promise<Map<string, ComparedContract>> {
+  const contracts = new Map<string, ComparedContract>();
+  for (const rawBuildInfo of rawBuildInfos) {
+    const buildInfoResult = ZBuildInfo.passthrough().safeParse(rawBuildInfo);
+    if (!buildInfoResult.success) {
+      throw new Error(`Invalid build info file: ${buildInfoResult.error}`);
+    }
 
-  const contractHashes = new Map<string, string>();
-  for (const contractPath in buildInfoResult.data.output.contracts) {
-    const contracts = buildInfoResult.data.output.contracts[contractPath];
-    for (const contractName in contracts) {
-      const contract = contracts[contractName];
-      const hash = hashContract(contract);
-      contractHashes.set(formKey(contractPath, contractName), hash);
+    for (const contractPath in buildInfoResult.data.output.contracts) {
+      const fileContracts = buildInfoResult.data.output.contracts[contractPath];
+      for (const contractName in fileContracts) {
+        const key = formKey(contractPath, contractName);
+        if (contracts.has(key)) continue;
+        const contract = fileContracts[contractName];
+        contracts.set(key, {
+          abi: contract.abi,
+          metadata: contract.metadata,
+          bytecode: contract.evm.bytecode.object,
+          deployedBytecode: contract.evm.deployedBytecode?.object,
+        });
+      }
     }
   }
 
-  return contractHashes;
+  return contracts;
 }
 
-function hashContract(contract: CompilerOutputContract): string {
-  const hash = createHash("sha256");
+/**
+ * When the metadata is ignored, the CBOR encoded metadata suffix is stripped from the bytecodes before comparing them
+ */
+function compareContracts(
+  before: ComparedContract,
+  after: ComparedContract,
+  opts: { ignoreMetadata?: boolean },
+): ContractChanges {
+  const isBytecodeDifferent =
+    before.bytecode !== after.bytecode ||
+    before.deployedBytecode !== after.deployedBytecode;
+  if (!opts.ignoreMetadata) {
+    return {
+      abi: compareAbis(before.abi, after.abi),
+      bytecode: isBytecodeDifferent,
+      metadata: before.metadata !== after.metadata,
+    };
+  }
+  const isCodeDifferent =
+    stripMetadata(before.bytecode) !== stripMetadata(after.bytecode) ||
+    stripMetadata(before.deployedBytecode ?? "") !==
+      stripMetadata(after.deployedBytecode ?? "");
+  return {
+    abi: compareAbis(before.abi, after.abi),
+    bytecode: isCodeDifferent,
+    metadata:
+      before.metadata !== after.metadata ||
+      (isBytecodeDifferent && !isCodeDifferent),
+  };
+}
 
-  contract.abi.sort((a, b) => {
-    return a?.name.localeCompare(b?.name);
-    if ("name" in a && "name" in b) {
-      return a.name.localeCompare(b.name);
+type AbiItem = CompilerOutputContract["abi"][number];
+type AbiParameter = {
+  type?: string;
+  name?: string;
+  indexed?: boolean;
+  components?: AbiParameter[];
+};
+
+/**
+ * Compare two ABIs, regardless of the order of their items
+ */
+function compareAbis(before: AbiItem[], after: AbiItem[]): AbiItemChange[] {
+  const beforeItems = indexAbiItems(before);
+  const afterItems = indexAbiItems(after);
+
+  const changes: AbiItemChange[] = [];
+  const removedSignatures: string[] = [];
+  const addedSignatures: string[] = [];
+  for (const [signature, beforeItem] of beforeItems) {
+    const afterItem = afterItems.get(signature);
+    if (!afterItem) {
+      removedSignatures.push(signature);
+      continue;
+    }
+    const beforeMutability = beforeItem.stateMutability;
+    const afterMutability = afterItem.stateMutability;
+    if (beforeMutability !== afterMutability) {
+      changes.push({
+        kind: "mutability",
+        signature,
+        before: beforeMutability ?? "none",
+        after: afterMutability ?? "none",
+      });
     }
-  });
-  for (const abiItem of contract.abi) {
-    hash.update(JSON.stringify(abiItem));
+    const beforeOutputs = formatParameterTypes(beforeItem.outputs);
+    const afterOutputs = formatParameterTypes(afterItem.outputs);
+    if (beforeOutputs !== afterOutputs) {
+      changes.push({
+        kind: "outputs",
+        signature,
+        before: beforeOutputs,
+        after: afterOutputs,
+      });
+    }
+    if (
+      beforeMutability === afterMutability &&
+      beforeOutputs === afterOutputs &&
+      JSON.stringify(beforeItem) !== JSON.stringify(afterItem)
+    ) {
+      changes.push({
+        kind: "definition",
+        signature,
+        before: JSON.stringify(beforeItem),
+        after: JSON.stringify(afterItem),
+      });
+    }
+  }
+  for (const signature of afterItems.keys()) {
+    if (!beforeItems.has(signature)) {
+      addedSignatures.push(signature);
+    }
+  }
+
+  // An item whose type and name are unique on both sides is considered as the same item with new inputs
+  for (const removedSignature of removedSignatures) {
+    const prefix = signaturePrefix(removedSignature);
+    const sameRemoved = removedSignatures.filter(
+      (signature) => signaturePrefix(signature) === prefix,
+    );
+    const sameAdded = addedSignatures.filter(
+      (signature) => signaturePrefix(signature) === prefix,
+    );
+    if (sameRemoved.length === 1 && sameAdded.length === 1) {
+      changes.push({
+        kind: "signature",
+        signature: sameAdded[0],
+        before: removedSignature,
+        after: sameAdded[0],
+      });
+      addedSignatures.splice(addedSignatures.indexOf(sameAdded[0]), 1);
+    } else {
+      changes.push({ kind: "removed", signature: removedSignature });
+    }
+  }
+  for (const addedSignature of addedSignatures) {
+    changes.push({ kind: "added", signature: addedSignature });
+  }
+
+  return changes;
+}
+
+function indexAbiItems(abi: AbiItem[]): Map<string, AbiItem> {
+  const items = new Map<string, AbiItem>();
+  for (const item of abi) {
+    items.set(formatAbiSignature(item), item);
   }
+  return items;
+}
 
-  hash.update(contract.evm.bytecode.object);
-  hash.update(contract.metadata);
+/**
+ * Format the signature of an ABI item with its type, e.g. `function transfer(address,uint256)` or `constructor(address)`
+ */
+function formatAbiSignature(item: AbiItem): string {
+  const inputs = formatParameterTypes(item.inputs);
+  if (!item.name) {
+    return `${item.type}${inputs}`;
+  }
+  return `${item.type} ${item.name}${inputs}`;
+}
 
-  return hash.digest("hex");
+function signaturePrefix(signature: string): string {
+  return signature.substring(0, signature.indexOf("("));
+}
+
+function formatParameterTypes(parameters: unknown[] | undefined): string {
+  return `(${(parameters ?? []).map((parameter) => formatParameterType(parameter as AbiParameter)).join(",")})`;
+}
+
+/**
+ * Format the canonical type of a parameter, the tuples are expanded, e.g. `(address,uint256)[]`
+ */
+function formatParameterType(parameter: AbiParameter): string {
+  const type = parameter.type ?? "";
+  if (type.startsWith("tuple")) {
+    return `${formatParameterTypes(parameter.components)}${type.substring("tuple".length)}`;
+  }
+  return type;
 }
 
 const SEPARATOR = "@@@@";
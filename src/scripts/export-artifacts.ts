@@ -0,0 +1,229 @@
+import fs from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import { ScriptError, toAsyncResult, ZBuildInfo } from "../utils";
+import { extractBuildInfos } from "../artifact-bundle";
+import { LocalStorageProvider } from "./local-storage-provider";
+import { resolvePulledArtifact } from "./retrieve-pulled-artifacts";
+
+export const EXPORT_FORMATS = ["hardhat", "foundry"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+type BuildInfo = z.infer<typeof ZBuildInfo>;
+type ContractOutput = BuildInfo["output"]["contracts"][string][string];
+
+/**
+ * Export the contracts of a pulled artifact as the artifacts directory of a Hardhat or Foundry project, along with its build infos
+ *
+ * The contracts of sources sharing the same file name are written under their full source path with the `foundry` format.
+ * @param artifact The project and the tag or ID of the pulled artifact
+ * @param format The format of the exported artifacts
+ * @param outputPath The directory in which the files are written, existing files are overwritten
+ * @returns The number of exported contracts and build infos
+ */
+export async function exportArtifacts(
+  artifact: { project: string; tagOrId: string },
+  format: ExportFormat,
+  outputPath: string,
+  opts: { debug?: boolean },
+  localProvider: LocalStorageProvider,
+): Promise<{ contracts: number; buildInfos: number }> {
+  const localArtifact = await resolvePulledArtifact(artifact, localProvider);
+
+  // The raw build infos are written as parsing drops their unknown keys
+  const contentResult = await toAsyncResult(
+    localProvider.retrieveArtifactContent(artifact.project, localArtifact),
+    { debug: opts.debug },
+  );
+  if (!contentResult.success) {
+    throw new ScriptError(
+      `Unable to retrieve the content of the artifact "${artifact.project}:${artifact.tagOrId}"`,
+    );
+  }
+
+  const files: Record<string, string> = {};
+  const contractFiles: {
+    sourceName: string;
+    contractName: string;
+    buildInfo: BuildInfo;
+    contract: ContractOutput;
+  }[] = [];
+  const exportedContracts = new Set<string>();
+  const rawBuildInfos = extractBuildInfos(JSON.parse(contentResult.value));
+  for (const rawBuildInfo of rawBuildInfos) {
+    const buildInfoResult = ZBuildInfo.safeParse(rawBuildInfo);
+    if (!buildInfoResult.success) {
+      throw new ScriptError(
+        `The artifact "${artifact.project}:${artifact.tagOrId}" contains an invalid build info`,
+      );
+    }
+    const buildInfo = buildInfoResult.data;
+    files[buildInfoFilePath(buildInfo.id)] = JSON.stringify(rawBuildInfo);
+
+    for (const sourceName in buildInfo.output.contracts) {
+      for (const contractName in buildInfo.output.contracts[sourceName]) {
+        // A contract compiled in several build infos is exported from the first one, as for the other tasks
+        const fullyQualifiedName = `${sourceName}:${contractName}`;
+        if (exportedContracts.has(fullyQualifiedName)) continue;
+        exportedContracts.add(fullyQualifiedName);
+        contractFiles.push({
+          sourceName,
+          contractName,
+          buildInfo,
+          contract: buildInfo.output.contracts[sourceName][contractName],
+        });
+      }
+    }
+  }
+
+  const sourceDirectories = resolveSourceDirectories(
+    Array.from(new Set(contractFiles.map(({ sourceName }) => sourceName))),
+    format,
+  );
+  for (const {
+    sourceName,
+    contractName,
+    buildInfo,
+    contract,
+  } of contractFiles) {
+    const directory = sourceDirectories[sourceName];
+    const artifactFilePath = path.posix.join(directory, `${contractName}.json`);
+    if (format === "hardhat") {
+      files[artifactFilePath] = JSON.stringify(
+        toHardhatArtifact(sourceName, contractName, contract),
+        null,
+        2,
+      );
+      files[path.posix.join(directory, `${contractName}.dbg.json`)] =
+        JSON.stringify(
+          {
+            _format: "hh-sol-dbg-1",
+            buildInfo: path.posix.relative(
+              directory,
+              buildInfoFilePath(buildInfo.id),
+            ),
+          },
+          null,
+          2,
+        );
+    } else {
+      files[artifactFilePath] = JSON.stringify(
+        toFoundryArtifact(sourceName, buildInfo, contract),
+        null,
+        2,
+      );
+    }
+  }
+
+  const writeResult = await toAsyncResult(
+    (async () => {
+      for (const relativePath in files) {
+        const filePath = path.join(outputPath, relativePath);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, files[relativePath]);
+      }
+    })(),
+    { debug: opts.debug },
+  );
+  if (!writeResult.success) {
+    throw new ScriptError(`Error writing the artifacts in "${outputPath}"`);
+  }
+
+  return { contracts: contractFiles.length, buildInfos: rawBuildInfos.length };
+}
+
+function buildInfoFilePath(buildInfoId: string): string {
+  return path.posix.join("build-info", `${buildInfoId}.json`);
+}
+
+/**
+ * Resolve the directory of the artifacts of each source, the source paths escaping the output directory, e.g. `../lib/Foo.sol` or absolute paths, are rejected
+ */
+function resolveSourceDirectories(
+  sourceNames: string[],
+  format: ExportFormat,
+): Record<string, string> {
+  const directories: Record<string, string> = {};
+  const fileNameCounts: Record<string, number> = {};
+  for (const sourceName of sourceNames) {
+    const normalizedPath = path.posix.normalize(sourceName);
+    if (
+      path.posix.isAbsolute(normalizedPath) ||
+      normalizedPath.split("/").includes("..") ||
+      normalizedPath === "build-info" ||
+      normalizedPath.startsWith("build-info/")
+    ) {
+      throw new ScriptError(
+        `The source path "${sourceName}" can not be written in the output directory`,
+      );
+    }
+    directories[sourceName] = normalizedPath;
+    const fileName = path.posix.basename(normalizedPath);
+    fileNameCounts[fileName] = (fileNameCounts[fileName] ?? 0) + 1;
+  }
+  if (format === "foundry") {
+    for (const sourceName in directories) {
+      const fileName = path.posix.basename(directories[sourceName]);
+      if (fileNameCounts[fileName] === 1) {
+        directories[sourceName] = fileName;
+      }
+    }
+  }
+  return directories;
+}
+
+function toHardhatArtifact(
+  sourceName: string,
+  contractName: string,
+  contract: ContractOutput,
+) {
+  return {
+    _format: "hh-sol-artifact-1",
+    contractName,
+    sourceName,
+    abi: contract.abi,
+    bytecode: withHexPrefix(contract.evm.bytecode.object),
+    deployedBytecode: withHexPrefix(
+      contract.evm.deployedBytecode?.object ?? "",
+    ),
+    linkReferences: contract.evm.bytecode.linkReferences ?? {},
+    deployedLinkReferences: contract.evm.deployedBytecode?.linkReferences ?? {},
+  };
+}
+
+function toFoundryArtifact(
+  sourceName: string,
+  buildInfo: BuildInfo,
+  contract: ContractOutput,
+) {
+  let metadata: unknown = undefined;
+  try {
+    metadata = JSON.parse(contract.metadata);
+  } catch {
+    // The parsed metadata is omitted if the raw metadata is not valid JSON
+  }
+  const deployedBytecode = contract.evm.deployedBytecode;
+  return {
+    abi: contract.abi,
+    bytecode: {
+      object: withHexPrefix(contract.evm.bytecode.object),
+      sourceMap: contract.evm.bytecode.sourceMap ?? "",
+      linkReferences: contract.evm.bytecode.linkReferences ?? {},
+    },
+    deployedBytecode: {
+      object: withHexPrefix(deployedBytecode?.object ?? ""),
+      sourceMap: deployedBytecode?.sourceMap ?? "",
+      linkReferences: deployedBytecode?.linkReferences ?? {},
+      immutableReferences: deployedBytecode?.immutableReferences ?? {},
+    },
+    methodIdentifiers: contract.evm.methodIdentifiers ?? {},
+    rawMetadata: contract.metadata,
+    metadata,
+    storageLayout: contract.storageLayout,
+    id: buildInfo.output.sources?.[sourceName]?.id,
+  };
+}
+
+function withHexPrefix(hex: string): string {
+  return hex.startsWith("0x") ? hex : `0x${hex}`;
+}
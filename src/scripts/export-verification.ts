@@ -0,0 +1,161 @@
+import fs from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import { ScriptError, toAsyncResult, ZBuildInfo } from "../utils";
+import { extractBuildInfos } from "../artifact-bundle";
+import { LocalStorageProvider } from "./local-storage-provider";
+import { resolvePulledArtifact } from "./retrieve-pulled-artifacts";
+
+// Only the sources of the metadata are used, in order to select the sources of the Sourcify bundle
+const ZContractMetadata = z.object({
+  sources: z.record(z.string(), z.unknown()),
+});
+
+// The compilation input is written as given to the compiler, its keys unknown to the build info schema are kept
+const ZCompilationInput = z
+  .object({
+    sources: z.record(
+      z.string(),
+      z.object({ content: z.string().optional() }).passthrough(),
+    ),
+  })
+  .passthrough();
+
+/**
+ * Export the files needed to verify a contract of a pulled artifact on a block explorer or on Sourcify: the Standard JSON input of the compilation, the compiler version and the Sourcify metadata and sources
+ * @param artifact The project and the tag or ID of the pulled artifact
+ * @param contract The contract, formatted as `<file path>:<contract name>`
+ * @param outputPath The directory in which the files are written
+ * @returns The paths of the written files
+ */
+export async function exportVerificationInput(
+  artifact: { project: string; tagOrId: string },
+  contract: string,
+  outputPath: string,
+  opts: { debug?: boolean },
+  localProvider: LocalStorageProvider,
+): Promise<string[]> {
+  const localArtifact = await resolvePulledArtifact(artifact, localProvider);
+
+  // The raw build infos are used as parsing drops the unknown keys of the compilation input
+  const contentResult = await toAsyncResult(
+    localProvider.retrieveArtifactContent(artifact.project, localArtifact),
+    { debug: opts.debug },
+  );
+  if (!contentResult.success) {
+    throw new ScriptError(
+      `Unable to retrieve the content of the artifact "${artifact.project}:${artifact.tagOrId}"`,
+    );
+  }
+
+  const separatorIndex = contract.lastIndexOf(":");
+  const contractPath = contract.substring(0, separatorIndex);
+  const contractName = contract.substring(separatorIndex + 1);
+  let found:
+    | {
+        input: z.infer<typeof ZCompilationInput>;
+        buildInfo: z.infer<typeof ZBuildInfo>;
+      }
+    | undefined = undefined;
+  for (const rawBuildInfo of extractBuildInfos(
+    JSON.parse(contentResult.value),
+  )) {
+    const buildInfoResult = ZBuildInfo.safeParse(rawBuildInfo);
+    const inputResult = z
+      .object({ input: ZCompilationInput })
+      .safeParse(rawBuildInfo);
+    if (!buildInfoResult.success || !inputResult.success) {
+      throw new ScriptError(
+        `The artifact "${artifact.project}:${artifact.tagOrId}" contains an invalid build info`,
+      );
+    }
+    if (buildInfoResult.data.output.contracts[contractPath]?.[contractName]) {
+      found = {
+        input: inputResult.data.input,
+        buildInfo: buildInfoResult.data,
+      };
+      break;
+    }
+  }
+  if (separatorIndex === -1 || !found) {
+    throw new ScriptError(
+      `The contract "${contract}" is not part of the artifact "${artifact.project}:${artifact.tagOrId}", the contract must be formatted as \`<file path>:<contract name>\``,
+    );
+  }
+  const { input, buildInfo } = found;
+
+  const rawMetadata =
+    buildInfo.output.contracts[contractPath][contractName].metadata;
+  let metadata: z.infer<typeof ZContractMetadata>;
+  try {
+    metadata = ZContractMetadata.parse(JSON.parse(rawMetadata));
+  } catch {
+    throw new ScriptError(
+      `The artifact does not contain a valid metadata for the contract "${contract}"`,
+    );
+  }
+
+  const sources: Record<string, string> = {};
+  for (const sourcePath in metadata.sources) {
+    const source = input.sources[sourcePath];
+    if (typeof source?.content !== "string") {
+      throw new ScriptError(
+        `The content of the source "${sourcePath}" is not part of the compilation input`,
+      );
+    }
+    sources[sourcePath] = source.content;
+  }
+
+  const files: Record<string, string> = {
+    "standard-json-input.json": JSON.stringify(input, null, 2),
+    "verification.json": JSON.stringify(
+      {
+        compilerVersion: `v${buildInfo.solcLongVersion}`,
+        contractName: contract,
+        language: buildInfo.input.language,
+      },
+      null,
+      2,
+    ),
+    "sourcify/metadata.json": rawMetadata,
+  };
+  for (const sourcePath in sources) {
+    files[resolveSourceFilePath(sourcePath)] = sources[sourcePath];
+  }
+
+  const writeResult = await toAsyncResult(
+    (async () => {
+      const writtenPaths: string[] = [];
+      for (const relativePath in files) {
+        const filePath = path.join(outputPath, relativePath);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, files[relativePath]);
+        writtenPaths.push(filePath);
+      }
+      return writtenPaths;
+    })(),
+    { debug: opts.debug },
+  );
+  if (!writeResult.success) {
+    throw new ScriptError(
+      `Error writing the verification files in "${outputPath}"`,
+    );
+  }
+  return writeResult.value;
+}
+
+/**
+ * Resolve the path of a source in the Sourcify bundle, the source paths escaping the bundle, e.g. `../lib/Foo.sol` or absolute paths, are rejected
+ */
+function resolveSourceFilePath(sourcePath: string): string {
+  const normalizedPath = path.posix.normalize(sourcePath);
+  if (
+    path.posix.isAbsolute(normalizedPath) ||
+    normalizedPath.split("/").includes("..")
+  ) {
+    throw new ScriptError(
+      `The source path "${sourcePath}" can not be written in the Sourcify bundle`,
+    );
+  }
+  return path.posix.join("sourcify", "sources", normalizedPath);
+}
@@ -1,6 +1,18 @@
 import { pull } from "./pull";
 import { pushArtifact } from "./push";
-import { generateDiffWithTargetRelease } from "./diff";
+import { tagArtifact } from "./tag";
+import { deleteArtifact, untagArtifact } from "./delete";
+import { prune } from "./prune";
+import { verifyPulledArtifacts } from "./verify";
+import {
+  generateDiffBetweenArtifacts,
+  generateDiffWithTargetRelease,
+} from "./diff";
+import { checkStorageLayouts } from "./check-storage-layout";
+import { verifyDeployment } from "./verify-deployment";
+import { exportVerificationInput } from "./export-verification";
+import { exportArtifacts } from "./export-artifacts";
+import { createDiffReport, formatDiffReport } from "./diff-report";
 import { generateArtifactsSummariesAndTypings } from "./generate-typings";
 import { retrieveGeneratedSummary } from "./retrieve-generated-summary";
 import { LocalStorageProvider } from "./local-storage-provider";
@@ -8,7 +20,19 @@ import { LocalStorageProvider } from "./local-storage-provider";
 export {
   pull,
   pushArtifact,
+  tagArtifact,
+  untagArtifact,
+  deleteArtifact,
+  prune,
+  verifyPulledArtifacts,
   generateDiffWithTargetRelease,
+  generateDiffBetweenArtifacts,
+  createDiffReport,
+  formatDiffReport,
+  checkStorageLayouts,
+  verifyDeployment,
+  exportVerificationInput,
+  exportArtifacts,
   generateArtifactsSummariesAndTypings,
   retrieveGeneratedSummary,
   LocalStorageProvider,
@@ -105,7 +105,7 @@ export async function generateArtifactsSummariesAndTypings(
         contractsPerTag[tag] = [];
       }
       const artifactResult = await toAsyncResult(
-        localProvider.retrieveArtifactByTag(project, tag),
+        localProvider.retrieveBuildInfosByTag(project, tag),
         { debug: opts.debug },
       );
       if (!artifactResult.success) {
@@ -113,15 +113,19 @@ export async function generateArtifactsSummariesAndTypings(
           `Error retrieving the artifact for project "${project}" and tag "${tag}"`,
         );
       }
-      for (const contractPath in artifactResult.value.output.contracts) {
-        const contracts = artifactResult.value.output.contracts[contractPath];
-        for (const contractName in contracts) {
-          const contractKey = `${contractPath}:${contractName}`;
-          contractsPerTag[tag].push(contractKey);
-          if (!tagsPerContract[contractKey]) {
-            tagsPerContract[contractKey] = [];
+      // A contract may be part of multiple build infos of a bundle, it is listed once
+      for (const buildInfo of artifactResult.value) {
+        for (const contractPath in buildInfo.output.contracts) {
+          const contracts = buildInfo.output.contracts[contractPath];
+          for (const contractName in contracts) {
+            const contractKey = `${contractPath}:${contractName}`;
+            if (contractsPerTag[tag].includes(contractKey)) continue;
+            contractsPerTag[tag].push(contractKey);
+            if (!tagsPerContract[contractKey]) {
+              tagsPerContract[contractKey] = [];
+            }
+            tagsPerContract[contractKey].push(tag);
           }
-          tagsPerContract[contractKey].push(tag);
         }
       }
     }
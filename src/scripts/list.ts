@@ -1,17 +1,64 @@
 import { LocalStorageProvider } from "./local-storage-provider";
-import { ScriptError, toAsyncResult } from "../utils";
+import { formatSize, ScriptError, toAsyncResult } from "../utils";
+import { ArtifactMetadata } from "../artifact-metadata";
+import { StorageProvider } from "../storage-provider";
 
-type ArtifactMetadata = {
+type ArtifactListItem = {
   Project: string;
   ID: string;
   Tag: string;
+  "Pushed by": string;
+  "Push date": string;
+  "Git commit": string;
+  Solc: string;
+  Optimizer: string;
+  Contracts: number | string;
+  Size: string;
   "Pull date": string;
 };
 
+export const ARTIFACT_LIST_COLUMNS: (keyof ArtifactListItem)[] = [
+  "Project",
+  "Tag",
+  "ID",
+  "Pushed by",
+  "Push date",
+  "Git commit",
+  "Solc",
+  "Optimizer",
+  "Contracts",
+  "Size",
+  "Pull date",
+];
+
+type RemoteArtifactListItem = Omit<ArtifactListItem, "Pull date"> & {
+  Pulled: "yes" | "no";
+};
+
+export const REMOTE_ARTIFACT_LIST_COLUMNS: (keyof RemoteArtifactListItem)[] = [
+  "Project",
+  "Tag",
+  "ID",
+  "Pulled",
+  "Pushed by",
+  "Push date",
+  "Git commit",
+  "Solc",
+  "Optimizer",
+  "Contracts",
+  "Size",
+];
+
+/**
+ * Generate the list of the pulled artifacts
+ * @param localProvider Local storage provider
+ * @param opts.project Restrict the listing to a project
+ * @param opts.debug Whether to enable debug mode
+ */
 export async function generateStructuredDataForArtifacts(
   localProvider: LocalStorageProvider,
-  opts: { debug?: boolean } = {},
-): Promise<ArtifactMetadata[]> {
+  opts: { project?: string; debug?: boolean } = {},
+): Promise<ArtifactListItem[]> {
   const projectsResult = await toAsyncResult(localProvider.listProjects(), {
     debug: opts.debug,
   });
@@ -19,9 +66,11 @@ export async function generateStructuredDataForArtifacts(
     throw new ScriptError("Error listing the projects");
   }
 
-  const metadatas: ArtifactMetadata[] = [];
+  const metadatas: ArtifactListItem[] = [];
   const idsAlreadyVisited = new Set<string>();
-  const projects = projectsResult.value;
+  const projects = projectsResult.value.filter(
+    (project) => !opts.project || project === opts.project,
+  );
   for (const project of projects) {
     const tagsResult = await toAsyncResult(localProvider.listTags(project), {
       debug: opts.debug,
@@ -42,6 +91,15 @@ export async function generateStructuredDataForArtifacts(
       );
     }
 
+    const retrieveMetadata = async (id: string) => {
+      const metadataResult = await toAsyncResult(
+        localProvider.retrieveArtifactMetadata(project, id),
+        { debug: opts.debug },
+      );
+      // A missing or invalid metadata only results in empty columns
+      return metadataResult.success ? metadataResult.value : undefined;
+    };
+
     for (let i = 0; i < tagsResult.value.length; i++) {
       const { tag, lastModifiedAt } = tagsResult.value[i];
       const artifactId = idsResults.value[i];
@@ -49,6 +107,7 @@ export async function generateStructuredDataForArtifacts(
         Project: project,
         ID: artifactId,
         Tag: tag,
+        ...formatMetadataColumns(await retrieveMetadata(artifactId)),
         "Pull date": deriveTimeAgo(lastModifiedAt),
       });
       idsAlreadyVisited.add(artifactId);
@@ -68,6 +127,7 @@ export async function generateStructuredDataForArtifacts(
         Project: project,
         ID: metadata.id,
         Tag: "",
+        ...formatMetadataColumns(await retrieveMetadata(metadata.id)),
         "Pull date": deriveTimeAgo(metadata.lastModifiedAt),
       });
       idsAlreadyVisited.add(metadata.id);
@@ -77,6 +137,190 @@ export async function generateStructuredDataForArtifacts(
   return metadatas;
 }
 
+// Maximum number of concurrent requests to the storage
+const REMOTE_BATCH_SIZE = 10;
+
+/**
+ * Generate the list of the artifacts in the storage, without pulling them
+ *
+ * The ID targeted by each tag is resolved and the artifacts already pulled are marked.
+ * @param localProvider Local storage provider
+ * @param storageProvider Storage provider
+ * @param opts.project Restrict the listing to a project
+ * @param opts.debug Whether to enable debug mode
+ */
+export async function generateStructuredDataForRemoteArtifacts(
+  localProvider: LocalStorageProvider,
+  storageProvider: StorageProvider,
+  opts: { project?: string; debug?: boolean } = {},
+): Promise<RemoteArtifactListItem[]> {
+  const projects: string[] = [];
+  if (opts.project) {
+    projects.push(opts.project);
+  } else {
+    const projectsResult = await toAsyncResult(
+      collect(storageProvider.listProjects()),
+      { debug: opts.debug },
+    );
+    if (!projectsResult.success) {
+      if (projectsResult.error instanceof ScriptError) {
+        throw projectsResult.error;
+      }
+      throw new ScriptError("Error listing the remote projects");
+    }
+    projects.push(...projectsResult.value);
+  }
+
+  const items: RemoteArtifactListItem[] = [];
+  for (const project of projects) {
+    const listingResult = await toAsyncResult(
+      Promise.all([
+        collect(storageProvider.listTags(project)),
+        collect(storageProvider.listIds(project)),
+      ]),
+      { debug: opts.debug },
+    );
+    if (!listingResult.success) {
+      if (listingResult.error instanceof ScriptError) {
+        throw listingResult.error;
+      }
+      throw new ScriptError(
+        `Error listing the remote tags and IDs for project "${project}"`,
+      );
+    }
+    const [tags, ids] = listingResult.value;
+
+    const tagIds: string[] = [];
+    for (let i = 0; i < tags.length; i += REMOTE_BATCH_SIZE) {
+      const batch = tags.slice(i, i + REMOTE_BATCH_SIZE);
+      const batchResult = await toAsyncResult(
+        Promise.all(
+          batch.map((tag) =>
+            storageProvider.retrieveArtifactIdByTag(project, tag),
+          ),
+        ),
+        { debug: opts.debug },
+      );
+      if (!batchResult.success) {
+        throw new ScriptError(
+          `Error resolving the IDs of the remote tags for project "${project}"`,
+        );
+      }
+      tagIds.push(...batchResult.value);
+    }
+
+    const metadataById = new Map<string, ArtifactMetadata | undefined>();
+    for (let i = 0; i < ids.length; i += REMOTE_BATCH_SIZE) {
+      const batch = ids.slice(i, i + REMOTE_BATCH_SIZE);
+      const metadatas = await Promise.all(
+        batch.map(async (id) => {
+          const metadataResult = await toAsyncResult(
+            storageProvider.downloadArtifactMetadata(project, id),
+            { debug: opts.debug },
+          );
+          // A missing or invalid metadata only results in empty columns
+          return metadataResult.success ? metadataResult.value : undefined;
+        }),
+      );
+      batch.forEach((id, index) => metadataById.set(id, metadatas[index]));
+    }
+
+    const localListingResult = await toAsyncResult(
+      Promise.all([
+        localProvider.listTags(project).catch(() => []),
+        localProvider.listIds(project).catch(() => []),
+      ]),
+      { debug: opts.debug },
+    );
+    if (!localListingResult.success) {
+      throw new ScriptError(
+        `Error listing the local tags and IDs for project "${project}"`,
+      );
+    }
+    const localTags = new Set(
+      localListingResult.value[0].map(({ tag }) => tag),
+    );
+    const localIds = new Set(localListingResult.value[1].map(({ id }) => id));
+
+    const taggedIds = new Set<string>();
+    for (let i = 0; i < tags.length; i++) {
+      taggedIds.add(tagIds[i]);
+      items.push({
+        Project: project,
+        Tag: tags[i],
+        ID: tagIds[i],
+        Pulled: localTags.has(tags[i]) ? "yes" : "no",
+        ...formatMetadataColumns(metadataById.get(tagIds[i])),
+      });
+    }
+    for (const id of ids) {
+      if (taggedIds.has(id)) {
+        continue;
+      }
+      items.push({
+        Project: project,
+        Tag: "",
+        ID: id,
+        Pulled: localIds.has(id) ? "yes" : "no",
+        ...formatMetadataColumns(metadataById.get(id)),
+      });
+    }
+  }
+
+  return items;
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const values: T[] = [];
+  for await (const value of iterable) {
+    values.push(value);
+  }
+  return values;
+}
+
+function formatMetadataColumns(
+  metadata: ArtifactMetadata | undefined,
+): Pick<
+  ArtifactListItem,
+  | "Pushed by"
+  | "Push date"
+  | "Git commit"
+  | "Solc"
+  | "Optimizer"
+  | "Contracts"
+  | "Size"
+> {
+  if (!metadata) {
+    return {
+      "Pushed by": "",
+      "Push date": "",
+      "Git commit": "",
+      Solc: "",
+      Optimizer: "",
+      Contracts: "",
+      Size: "",
+    };
+  }
+  let gitCommit = "";
+  if (metadata.git) {
+    gitCommit = metadata.git.commit.substring(0, 8);
+    if (metadata.git.dirty) {
+      gitCommit += " (dirty)";
+    }
+  }
+  return {
+    "Pushed by": metadata.pushedBy,
+    "Push date": deriveTimeAgo(metadata.pushedAt),
+    "Git commit": gitCommit,
+    Solc: metadata.solcLongVersion,
+    Optimizer: metadata.optimizer.enabled
+      ? `${metadata.optimizer.runs ?? 200} runs${metadata.viaIR ? " (via IR)" : ""}`
+      : "disabled",
+    Contracts: metadata.contracts.length,
+    Size: formatSize(metadata.size),
+  };
+}
+
 function deriveTimeAgo(time: string): string {
   const now = new Date();
   const then = new Date(time);
@@ -1,8 +1,15 @@
+import crypto from "crypto";
 import fs from "fs/promises";
 import { Stream } from "stream";
 import { ZBuildInfo } from "../utils";
 import { z } from "zod";
-import crypto from "crypto";
+import { ArtifactMetadata, ZArtifactMetadata } from "../artifact-metadata";
+import { extractBuildInfos } from "../artifact-bundle";
+import {
+  deriveArtifactIdCandidates,
+  matchesArtifactId,
+  resolveArtifactId,
+} from "../artifact-id";
 
 export class LocalStorageProvider {
   public readonly rootPath: string;
@@ -19,6 +26,27 @@ export class LocalStorageProvider {
     return this.exists(`${this.rootPath}/${project}/tags/${tag}.json`);
   }
 
+  /**
+   * Resolve whether a tag or an ID has been pulled, a tag takes precedence over an ID of the same value
+   * @returns The pulled artifact, or `undefined` if it has not been pulled
+   */
+  public async resolveLocalArtifact(
+    project: string,
+    tagOrId: string,
+  ): Promise<{ type: "tag" | "id"; value: string } | undefined> {
+    const [isTag, isId] = await Promise.all([
+      this.hasTag(project, tagOrId),
+      this.hasId(project, tagOrId),
+    ]);
+    if (isTag) {
+      return { type: "tag", value: tagOrId };
+    }
+    if (isId) {
+      return { type: "id", value: tagOrId };
+    }
+    return undefined;
+  }
+
   public async listProjects(): Promise<string[]> {
     const entries = await fs.readdir(this.rootPath, { withFileTypes: true });
     return entries
@@ -77,22 +105,104 @@ export class LocalStorageProvider {
     }));
   }
 
-  public async createArtifactById(
+  /**
+   * List the IDs having a pulled metadata
+   */
+  public async listMetadataIds(project: string): Promise<string[]> {
+    const metadataPath = `${this.rootPath}/${project}/metadata`;
+    const doesMetadataPathExist = await this.exists(metadataPath);
+    if (!doesMetadataPathExist) {
+      return [];
+    }
+    const entries = await fs.readdir(metadataPath, { withFileTypes: true });
+    return entries
+      .filter((entry) => entry.isFile())
+      .map((entry) => entry.name.replace(".json", ""));
+  }
+
+  /**
+   * Write a downloaded artifact to a temporary file, it replaces the pulled artifact only once moved with `commitTemporaryArtifact`
+   * @returns The path of the temporary file
+   */
+  public async createTemporaryArtifact(
     project: string,
-    id: string,
-    artifact: Stream,
+    artifact: { type: "tag" | "id"; value: string },
+    content: Stream,
+  ): Promise<string> {
+    const temporaryDirectory = `${this.rootPath}/${project}/tmp`;
+    await fs.mkdir(temporaryDirectory, { recursive: true });
+    const temporaryPath = `${temporaryDirectory}/${artifact.type}-${artifact.value}-${crypto.randomUUID()}.json`;
+    await fs.writeFile(temporaryPath, content);
+    return temporaryPath;
+  }
+
+  public async retrieveTemporaryArtifactContent(
+    temporaryPath: string,
+  ): Promise<string> {
+    return fs.readFile(temporaryPath, "utf-8");
+  }
+
+  /**
+   * Move a temporary artifact to its pulled path, replacing the previously pulled artifact if any
+   */
+  public async commitTemporaryArtifact(
+    project: string,
+    artifact: { type: "tag" | "id"; value: string },
+    temporaryPath: string,
   ): Promise<void> {
-    return fs.writeFile(`${this.rootPath}/${project}/ids/${id}.json`, artifact);
+    return fs.rename(
+      temporaryPath,
+      `${this.rootPath}/${project}/${artifact.type === "tag" ? "tags" : "ids"}/${artifact.value}.json`,
+    );
+  }
+
+  public async deleteTemporaryArtifact(temporaryPath: string): Promise<void> {
+    return fs.rm(temporaryPath, { force: true });
   }
 
-  public async createArtifactByTag(
+  public async createArtifactMetadata(
     project: string,
-    tag: string,
-    artifact: Stream,
+    id: string,
+    metadata: ArtifactMetadata,
   ): Promise<void> {
     return fs.writeFile(
-      `${this.rootPath}/${project}/tags/${tag}.json`,
-      artifact,
+      `${this.rootPath}/${project}/metadata/${id}.json`,
+      JSON.stringify(metadata),
+    );
+  }
+
+  /**
+   * Delete a pulled tag
+   * @param opts.dryRun If enabled, nothing is deleted
+   * @returns The paths that have been, or would be, deleted
+   */
+  public async deleteTag(
+    project: string,
+    tag: string,
+    opts: { dryRun: boolean },
+  ): Promise<string[]> {
+    return this.deleteExistingFiles(
+      [`${this.rootPath}/${project}/tags/${tag}.json`],
+      opts,
+    );
+  }
+
+  /**
+   * Delete a pulled artifact ID along with its metadata
+   * @param opts.dryRun If enabled, nothing is deleted
+   * @returns The paths that have been, or would be, deleted
+   */
+  public async deleteId(
+    project: string,
+    id: string,
+    opts: { dryRun: boolean },
+  ): Promise<string[]> {
+    return this.deleteExistingFiles(
+      [
+        `${this.rootPath}/${project}/ids/${id}.json`,
+        `${this.rootPath}/${project}/metadata/${id}.json`,
+      ],
+      opts,
     );
   }
 
@@ -109,6 +219,7 @@ export class LocalStorageProvider {
       `${this.rootPath}/${project}`,
       `${this.rootPath}/${project}/ids`,
       `${this.rootPath}/${project}/tags`,
+      `${this.rootPath}/${project}/metadata`,
     ];
     for (const path of pathsToEnsure) {
       const doesPathExist = await this.exists(path);
@@ -118,41 +229,129 @@ export class LocalStorageProvider {
     }
   }
 
-  public async retrieveArtifactByTag(
+  /**
+   * Retrieve the build infos of a pulled tag, an artifact holds multiple build infos if it is a bundle
+   */
+  public async retrieveBuildInfosByTag(
+    project: string,
+    tag: string,
+  ): Promise<z.infer<typeof ZBuildInfo>[]> {
+    return this.readBuildInfos(`${this.rootPath}/${project}/tags/${tag}.json`);
+  }
+
+  /**
+   * Retrieve the build infos of a pulled ID, an artifact holds multiple build infos if it is a bundle
+   */
+  public async retrieveBuildInfosById(
+    project: string,
+    id: string,
+  ): Promise<z.infer<typeof ZBuildInfo>[]> {
+    return this.readBuildInfos(`${this.rootPath}/${project}/ids/${id}.json`);
+  }
+
+  /**
+   * Retrieve the metadata of an artifact ID
+   * @returns The metadata, or `undefined` if the metadata has not been pulled
+   */
+  public async retrieveArtifactMetadata(
+    project: string,
+    id: string,
+  ): Promise<ArtifactMetadata | undefined> {
+    const metadataPath = `${this.rootPath}/${project}/metadata/${id}.json`;
+    const doesMetadataExist = await this.exists(metadataPath);
+    if (!doesMetadataExist) {
+      return undefined;
+    }
+    const metadataContent = await fs.readFile(metadataPath, "utf-8");
+    return ZArtifactMetadata.parse(JSON.parse(metadataContent));
+  }
+
+  /**
+   * Retrieve the ID of a pulled tag, the ID derived with a previous version is used if the corresponding ID or its metadata has been pulled
+   */
+  public async retrieveArtifactId(
     project: string,
     tag: string,
-  ): Promise<z.infer<typeof ZBuildInfo>> {
+  ): Promise<string> {
     const artifactContent = await fs.readFile(
       `${this.rootPath}/${project}/tags/${tag}.json`,
       "utf-8",
     );
-    const rawArtifact = JSON.parse(artifactContent);
-    return ZBuildInfo.passthrough().parse(rawArtifact);
+    return resolveArtifactId(
+      artifactContent,
+      async (id) =>
+        (await this.hasId(project, id)) ||
+        this.exists(`${this.rootPath}/${project}/metadata/${id}.json`),
+    );
   }
 
-  public async retrieveArtifactById(
+  /**
+   * Derive the IDs a pulled tag may point to, one per version of the derivation
+   */
+  public async retrieveArtifactIdCandidates(
     project: string,
-    id: string,
-  ): Promise<z.infer<typeof ZBuildInfo>> {
+    tag: string,
+  ): Promise<string[]> {
     const artifactContent = await fs.readFile(
-      `${this.rootPath}/${project}/ids/${id}.json`,
+      `${this.rootPath}/${project}/tags/${tag}.json`,
       "utf-8",
     );
-    const rawArtifact = JSON.parse(artifactContent);
-    return ZBuildInfo.passthrough().parse(rawArtifact);
+    return deriveArtifactIdCandidates(artifactContent);
   }
 
-  public async retrieveArtifactId(
+  /**
+   * Check whether the content of a pulled artifact, by ID or by tag, matches an ID, it does not if the file is corrupted
+   */
+  public async matchesArtifactId(
     project: string,
-    tag: string,
+    artifact: { type: "tag" | "id"; value: string },
+    id: string,
+  ): Promise<boolean> {
+    const artifactContent = await this.retrieveArtifactContent(
+      project,
+      artifact,
+    );
+    return matchesArtifactId(artifactContent, id);
+  }
+
+  /**
+   * Retrieve the raw content of a pulled artifact, by ID or by tag
+   */
+  public async retrieveArtifactContent(
+    project: string,
+    artifact: { type: "tag" | "id"; value: string },
   ): Promise<string> {
-    const artifactContent = await fs.readFile(
-      `${this.rootPath}/${project}/tags/${tag}.json`,
+    return fs.readFile(
+      `${this.rootPath}/${project}/${artifact.type === "tag" ? "tags" : "ids"}/${artifact.value}.json`,
       "utf-8",
     );
-    const hash = crypto.createHash("sha256");
-    hash.update(artifactContent);
-    return hash.digest("hex").substring(0, 12);
+  }
+
+  private async readBuildInfos(
+    path: string,
+  ): Promise<z.infer<typeof ZBuildInfo>[]> {
+    const artifactContent = await fs.readFile(path, "utf-8");
+    return extractBuildInfos(JSON.parse(artifactContent)).map((rawBuildInfo) =>
+      ZBuildInfo.passthrough().parse(rawBuildInfo),
+    );
+  }
+
+  private async deleteExistingFiles(
+    paths: string[],
+    opts: { dryRun: boolean },
+  ): Promise<string[]> {
+    const existingPaths: string[] = [];
+    for (const path of paths) {
+      if (await this.exists(path)) {
+        existingPaths.push(path);
+      }
+    }
+    if (!opts.dryRun) {
+      for (const path of existingPaths) {
+        await fs.rm(path);
+      }
+    }
+    return existingPaths;
   }
 
   private exists(path: string): Promise<boolean> {
@@ -0,0 +1,206 @@
+import fs from "fs/promises";
+import { StorageProvider } from "../storage-provider";
+import { ScriptError, toAsyncResult } from "../utils";
+import { LocalStorageProvider } from "./local-storage-provider";
+
+type PruneCriteria = {
+  // Remove the artifacts pulled more than this duration ago, in milliseconds
+  olderThan?: number;
+  // Keep only this number of most recently pulled tags per project
+  keep?: number;
+  // Remove the artifacts that are no longer present in the storage
+  remoteMissing: boolean;
+};
+
+type PrunedArtifact = {
+  project: string;
+  type: "tag" | "id";
+  value: string;
+  reason: string;
+};
+
+/**
+ * Remove pulled artifacts from the local Soko directory
+ *
+ * An artifact is removed as soon as it matches one of the criteria:
+ * - it has been pulled more than the `olderThan` duration ago,
+ * - it is a tag that is not part of the `keep` most recently pulled tags of its project,
+ * - it is no longer present in the storage, only if `remoteMissing` is enabled.
+ * @param criteria The pruning criteria
+ * @param opts.project Restrict the pruning to a project
+ * @param opts.dryRun If enabled, nothing is removed
+ * @param opts.debug Whether to enable debug mode
+ * @param localProvider The local storage provider
+ * @param storageProvider The storage provider, required if `remoteMissing` is enabled
+ * @returns The pruned artifacts and the reclaimed disk space in bytes
+ */
+export async function prune(
+  criteria: PruneCriteria,
+  opts: { project?: string; dryRun: boolean; debug: boolean },
+  localProvider: LocalStorageProvider,
+  storageProvider: StorageProvider | undefined,
+): Promise<{ prunedArtifacts: PrunedArtifact[]; reclaimedBytes: number }> {
+  const projectsResult = await toAsyncResult(localProvider.listProjects(), {
+    debug: opts.debug,
+  });
+  if (!projectsResult.success) {
+    throw new ScriptError("Error listing the projects");
+  }
+  const projects = projectsResult.value.filter(
+    (project) => !opts.project || project === opts.project,
+  );
+
+  const prunedArtifacts: PrunedArtifact[] = [];
+  let reclaimedBytes = 0;
+  for (const project of projects) {
+    const candidatesResult = await toAsyncResult(
+      selectArtifactsToPrune(project, criteria, localProvider, storageProvider),
+      { debug: opts.debug },
+    );
+    if (!candidatesResult.success) {
+      if (candidatesResult.error instanceof ScriptError) {
+        throw candidatesResult.error;
+      }
+      throw new ScriptError(
+        `Error selecting the artifacts to prune for project "${project}"`,
+      );
+    }
+
+    for (const artifact of candidatesResult.value) {
+      const removal = (dryRun: boolean) =>
+        artifact.type === "tag"
+          ? localProvider.deleteTag(project, artifact.value, { dryRun })
+          : localProvider.deleteId(project, artifact.value, { dryRun });
+
+      const removalResult = await toAsyncResult(
+        removal(true).then(async (paths) => {
+          const size = await sumFileSizes(paths);
+          if (!opts.dryRun) {
+            await removal(false);
+          }
+          return size;
+        }),
+        { debug: opts.debug },
+      );
+      if (!removalResult.success) {
+        throw new ScriptError(
+          `Error removing the ${artifact.type === "tag" ? "tag" : "ID"} "${project}:${artifact.value}"`,
+        );
+      }
+      reclaimedBytes += removalResult.value;
+      prunedArtifacts.push(artifact);
+    }
+  }
+
+  return { prunedArtifacts, reclaimedBytes };
+}
+
+async function selectArtifactsToPrune(
+  project: string,
+  criteria: PruneCriteria,
+  localProvider: LocalStorageProvider,
+  storageProvider: StorageProvider | undefined,
+): Promise<PrunedArtifact[]> {
+  const [tags, ids] = await Promise.all([
+    localProvider.listTags(project),
+    localProvider.listIds(project),
+  ]);
+
+  // An artifact matching multiple criteria is selected once, with the first matching reason
+  const selectedArtifacts = new Map<string, PrunedArtifact>();
+  const select = (type: "tag" | "id", value: string, reason: string) => {
+    const key = `${type}:${value}`;
+    if (!selectedArtifacts.has(key)) {
+      selectedArtifacts.set(key, { project, type, value, reason });
+    }
+  };
+
+  if (criteria.olderThan !== undefined) {
+    const threshold = Date.now() - criteria.olderThan;
+    for (const { tag, lastModifiedAt } of tags) {
+      if (new Date(lastModifiedAt).getTime() < threshold) {
+        select("tag", tag, "older than the duration");
+      }
+    }
+    for (const { id, lastModifiedAt } of ids) {
+      if (new Date(lastModifiedAt).getTime() < threshold) {
+        select("id", id, "older than the duration");
+      }
+    }
+  }
+
+  if (criteria.keep !== undefined) {
+    const sortedTags = [...tags].sort(
+      (a, b) =>
+        new Date(b.lastModifiedAt).getTime() -
+        new Date(a.lastModifiedAt).getTime(),
+    );
+    for (const { tag } of sortedTags.slice(criteria.keep)) {
+      select("tag", tag, `not in the ${criteria.keep} most recent tags`);
+    }
+  }
+
+  if (criteria.remoteMissing) {
+    if (!storageProvider) {
+      throw new ScriptError(
+        "A storage provider is required in order to prune the artifacts missing from the storage",
+      );
+    }
+    const remoteTags = new Set<string>();
+    const remoteIds = new Set<string>();
+    const remoteListingResult = await toAsyncResult(
+      (async () => {
+        for await (const tag of storageProvider.listTags(project)) {
+          remoteTags.add(tag);
+        }
+        for await (const id of storageProvider.listIds(project)) {
+          remoteIds.add(id);
+        }
+      })(),
+    );
+    if (!remoteListingResult.success) {
+      if (remoteListingResult.error instanceof ScriptError) {
+        throw remoteListingResult.error;
+      }
+      throw new ScriptError(
+        `Error listing the remote tags and IDs for project "${project}"`,
+      );
+    }
+    for (const { tag } of tags) {
+      if (!remoteTags.has(tag)) {
+        select("tag", tag, "missing from the storage");
+      }
+    }
+    for (const { id } of ids) {
+      if (!remoteIds.has(id)) {
+        select("id", id, "missing from the storage");
+      }
+    }
+  }
+
+  return Array.from(selectedArtifacts.values());
+}
+
+async function sumFileSizes(paths: string[]): Promise<number> {
+  const stats = await Promise.all(paths.map((path) => fs.stat(path)));
+  return stats.reduce((total, stat) => total + stat.size, 0);
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a duration such as `30d`, `12h`, `2w` or `45m`
+ * @returns The duration in milliseconds, or `undefined` if the format is invalid
+ */
+export function parseDuration(duration: string): number | undefined {
+  const match = /^(\d+)([mhdw])$/.exec(duration.trim());
+  if (!match) {
+    return undefined;
+  }
+  return Number(match[1]) * DURATION_UNITS[match[2]];
+}
@@ -1,61 +1,44 @@
 import { toAsyncResult } from "../utils";
 import { LOG_COLORS, ScriptError } from "../utils";
-import { StorageProvider } from "../s3-bucket-provider";
+import { StorageProvider } from "../storage-provider";
 import { LocalStorageProvider } from "./local-storage-provider";
+import { verifyArtifactSignature } from "../artifact-signature";
+import { matchesArtifactId } from "../artifact-id";
+
+export type SignatureVerificationOptions = {
+  // PEM encoded public keys trusted to sign the artifacts
+  trustedPublicKeys: string[];
+  // Whether an unsigned or badly signed artifact is discarded or only reported
+  onInvalidSignature: "refuse" | "warn";
+};
 
 /**
  * Pulls artifacts of a project from the storage provider
+ *
+ * The remote tags and IDs are iterated lazily and the missing artifacts are downloaded by batches of limited size.
  * @param project The project name
  * @param tagOrId The tag or ID of the artifact to pull
  * @param opts.force Whether to force the pull
  * @param opts.release A specific release to pull
+ * @param opts.signatureVerification If provided, the signatures of the pulled artifacts are verified
  * @param opts.debug Whether to enable debug mode
  * @param storageProvider The storage provider
- * @returns An object with the remote releases, pulled releases, and failed releases
+ * @returns An object with the remote releases, pulled releases, and failed releases, the pulled tags whose content could not be checked against a recorded ID are reported as unverifiable
  */
 export async function pull(
   project: string,
   tagOrId: string | undefined,
-  opts: { force: boolean; debug: boolean },
+  opts: {
+    force: boolean;
+    debug: boolean;
+    signatureVerification?: SignatureVerificationOptions;
+  },
   localProvider: LocalStorageProvider,
   storageProvider: StorageProvider,
 ) {
-  const remoteListingResult = await toAsyncResult(
-    Promise.all([
-      storageProvider.listTags(project),
-      storageProvider.listIds(project),
-    ]),
-    { debug: opts.debug },
-  );
-  if (!remoteListingResult.success) {
-    throw new ScriptError("Error listing the remote tags and IDs");
-  }
-  const [remoteTags, remoteIds] = remoteListingResult.value;
-
-  const tagsToDownload: string[] = [];
-  const idsToDownload: string[] = [];
-
-  if (tagOrId) {
-    if (remoteTags.includes(tagOrId)) {
-      tagsToDownload.push(tagOrId);
-    } else if (remoteIds.includes(tagOrId)) {
-      idsToDownload.push(tagOrId);
-    } else {
-      throw new ScriptError(
-        `The tag or ID "${tagOrId}" does not exist in the storage`,
-      );
-    }
-  } else {
-    tagsToDownload.push(...remoteTags);
-    idsToDownload.push(...remoteIds);
-  }
-
-  let filteredTagsToDownload: string[] = [];
-  let filteredIdsToDownload: string[] = [];
-  if (opts.force) {
-    filteredTagsToDownload = tagsToDownload;
-    filteredIdsToDownload = idsToDownload;
-  } else {
+  let localTags = new Set<string>();
+  let localIds = new Set<string>();
+  if (!opts.force) {
     const localListingResult = await toAsyncResult(
       Promise.all([
         localProvider.listTags(project).then((tagMetadatas) => {
@@ -78,108 +61,330 @@ export async function pull(
     if (!localListingResult.success) {
       throw new ScriptError("Error listing the local tags and IDs");
     }
+    [localTags, localIds] = localListingResult.value;
+  }
 
-    const [localTags, localIds] = localListingResult.value;
+  const result = {
+    remoteTags: [] as string[],
+    remoteIds: [] as string[],
+    pulledTags: [] as string[],
+    pulledIds: [] as string[],
+    failedTags: [] as string[],
+    failedIds: [] as string[],
+    unverifiableTags: [] as string[],
+  };
 
-    filteredTagsToDownload = tagsToDownload.filter(
-      (tag) => !localTags.has(tag),
+  // The missing artifacts are pulled by batches while the remote listing is iterated
+  let batch: RemoteArtifact[] = [];
+  const pullBatch = async () => {
+    console.error(
+      LOG_COLORS.log,
+      `\nFound ${batch.length} missing artifacts, starting to pull`,
     );
-    filteredIdsToDownload = idsToDownload.filter((id) => !localIds.has(id));
+    const settlements = await Promise.allSettled(
+      batch.map((artifact) =>
+        pullArtifact(project, artifact, opts, localProvider, storageProvider),
+      ),
+    );
+    for (let i = 0; i < settlements.length; i++) {
+      const artifact = batch[i];
+      const settlement = settlements[i];
+      const succeeded = settlement.status === "fulfilled";
+      if (succeeded && settlement.value === "unverifiable") {
+        result.unverifiableTags.push(artifact.value);
+      }
+      if (artifact.type === "tag") {
+        (succeeded ? result.pulledTags : result.failedTags).push(
+          artifact.value,
+        );
+      } else {
+        (succeeded ? result.pulledIds : result.failedIds).push(artifact.value);
+      }
+    }
+    batch = [];
+  };
+
+  const remoteArtifactsResult = await toAsyncResult(
+    (async () => {
+      for await (const artifact of listRemoteArtifacts(
+        project,
+        tagOrId,
+        storageProvider,
+      )) {
+        if (artifact.type === "tag") {
+          result.remoteTags.push(artifact.value);
+          if (localTags.has(artifact.value)) continue;
+        } else {
+          result.remoteIds.push(artifact.value);
+          if (localIds.has(artifact.value)) continue;
+        }
+        batch.push(artifact);
+        if (batch.length >= PULL_BATCH_SIZE) {
+          await pullBatch();
+        }
+      }
+    })(),
+    { debug: opts.debug },
+  );
+  if (!remoteArtifactsResult.success) {
+    if (remoteArtifactsResult.error instanceof ScriptError) {
+      throw remoteArtifactsResult.error;
+    }
+    throw new ScriptError("Error listing the remote tags and IDs");
+  }
+  if (batch.length > 0) {
+    await pullBatch();
   }
 
-  if (
-    filteredTagsToDownload.length === 0 &&
-    filteredIdsToDownload.length === 0
-  ) {
-    return {
-      remoteTags,
-      remoteIds,
-      pulledTags: [],
-      pulledIds: [],
-      failedTags: [],
-      failedIds: [],
-    };
+  return result;
+}
+
+// Maximum number of artifacts downloaded concurrently
+const PULL_BATCH_SIZE = 10;
+
+type RemoteArtifact = { type: "tag" | "id"; value: string };
+
+async function* listRemoteArtifacts(
+  project: string,
+  tagOrId: string | undefined,
+  storageProvider: StorageProvider,
+): AsyncIterable<RemoteArtifact> {
+  if (tagOrId) {
+    if (await storageProvider.hasArtifactByTag(project, tagOrId)) {
+      yield { type: "tag", value: tagOrId };
+    } else if (await storageProvider.hasArtifactById(project, tagOrId)) {
+      yield { type: "id", value: tagOrId };
+    } else {
+      throw new ScriptError(
+        `The tag or ID "${tagOrId}" does not exist in the storage`,
+      );
+    }
+    return;
   }
 
-  const missingArtifactCount =
-    filteredTagsToDownload.length + filteredIdsToDownload.length;
-  console.error(
-    LOG_COLORS.log,
-    `\nFound ${missingArtifactCount} missing artifacts, starting to pull`,
+  for await (const tag of storageProvider.listTags(project)) {
+    yield { type: "tag", value: tag };
+  }
+  for await (const id of storageProvider.listIds(project)) {
+    yield { type: "id", value: id };
+  }
+}
+
+async function pullArtifact(
+  project: string,
+  artifact: RemoteArtifact,
+  opts: {
+    debug: boolean;
+    signatureVerification?: SignatureVerificationOptions;
+  },
+  localProvider: LocalStorageProvider,
+  storageProvider: StorageProvider,
+): Promise<"verified" | "unverifiable"> {
+  const label = artifact.type === "tag" ? "tag" : "ID";
+  // The ID is resolved once, independently of the downloaded content
+  const expectedIdResult = await toAsyncResult(
+    artifact.type === "tag"
+      ? storageProvider.retrieveRecordedArtifactIdByTag(project, artifact.value)
+      : Promise.resolve(artifact.value),
+    { debug: opts.debug },
   );
+  if (!expectedIdResult.success) {
+    throw new ScriptError(
+      `Error retrieving the ID of the ${label} "${artifact.value}"`,
+    );
+  }
+  const expectedId = expectedIdResult.value;
 
-  const tagsPromises: Promise<void>[] = filteredTagsToDownload.map(
-    async (tag) => {
-      const downloadResult = await toAsyncResult(
-        storageProvider.downloadArtifactByTag(project, tag),
-        { debug: opts.debug },
-      );
-      if (!downloadResult.success) {
-        throw new ScriptError(`Error downloading the tag "${tag}"`);
-      }
+  const downloadResult = await toAsyncResult(
+    artifact.type === "tag"
+      ? storageProvider.downloadArtifactByTag(project, artifact.value)
+      : storageProvider.downloadArtifactById(project, artifact.value),
+    { debug: opts.debug },
+  );
+  if (!downloadResult.success) {
+    throw new ScriptError(`Error downloading the ${label} "${artifact.value}"`);
+  }
 
-      const createResult = await toAsyncResult(
-        localProvider.createArtifactByTag(project, tag, downloadResult.value),
-        { debug: opts.debug },
-      );
-      if (!createResult.success) {
-        throw new ScriptError(`Error creating the tag "${tag}"`);
-      }
+  // The artifact is verified in a temporary file, a previously pulled artifact is only replaced by a verified one
+  const createResult = await toAsyncResult(
+    localProvider.createTemporaryArtifact(
+      project,
+      artifact,
+      downloadResult.value,
+    ),
+    { debug: opts.debug },
+  );
+  if (!createResult.success) {
+    throw new ScriptError(`Error creating the ${label} "${artifact.value}"`);
+  }
+  const temporaryPath = createResult.value;
 
-      console.error(
-        LOG_COLORS.success,
-        `\nSuccessfully pulled artifact "${tag}"`,
-      );
-    },
+  const contentResult = await toAsyncResult(
+    localProvider.retrieveTemporaryArtifactContent(temporaryPath),
+    { debug: opts.debug },
   );
-  const idsPromises: Promise<void>[] = filteredIdsToDownload.map(async (id) => {
-    const downloadResult = await toAsyncResult(
-      storageProvider.downloadArtifactById(project, id),
-      { debug: opts.debug },
+  if (!contentResult.success) {
+    await discardTemporaryArtifact(temporaryPath, opts, localProvider);
+    throw new ScriptError(`Error reading the ${label} "${artifact.value}"`);
+  }
+  const content = contentResult.value;
+
+  // The content is hashed again in order to discard artifacts corrupted or altered during the transfer
+  if (expectedId && !matchesArtifactId(content, expectedId)) {
+    await discardTemporaryArtifact(temporaryPath, opts, localProvider);
+    console.error(
+      LOG_COLORS.error,
+      `\n❌ The content of the ${label} "${artifact.value}" does not match its checksum, it has been discarded`,
     );
-    if (!downloadResult.success) {
-      throw new ScriptError(`Error downloading the ID "${id}"`);
-    }
+    throw new ScriptError(
+      `The content of the ${label} "${artifact.value}" does not match its checksum`,
+    );
+  }
 
-    const createResult = await toAsyncResult(
-      localProvider.createArtifactById(project, id, downloadResult.value),
+  if (opts.signatureVerification) {
+    const signatureResult = await toAsyncResult(
+      verifyPulledArtifactSignature(
+        project,
+        artifact,
+        content,
+        opts.signatureVerification.trustedPublicKeys,
+        storageProvider,
+      ),
       { debug: opts.debug },
     );
-    if (!createResult.success) {
-      throw new ScriptError(`Error creating the ID "${id}"`);
+    if (!signatureResult.success) {
+      await discardTemporaryArtifact(temporaryPath, opts, localProvider);
+      throw new ScriptError(
+        `Error verifying the signature of the ${label} "${artifact.value}"`,
+      );
     }
+    const verification = signatureResult.value;
+    if (verification.status !== "valid") {
+      const reason =
+        verification.status === "unsigned"
+          ? "it is not signed"
+          : `its signature is invalid, ${verification.reason}`;
+      if (opts.signatureVerification.onInvalidSignature === "warn") {
+        console.error(
+          LOG_COLORS.warn,
+          `\nThe ${label} "${artifact.value}" has been pulled but ${reason}`,
+        );
+      } else {
+        await discardTemporaryArtifact(temporaryPath, opts, localProvider);
+        console.error(
+          LOG_COLORS.error,
+          `\n❌ The ${label} "${artifact.value}" has been discarded as ${reason}`,
+        );
+        throw new ScriptError(
+          `The signature of the ${label} "${artifact.value}" is missing or invalid`,
+        );
+      }
+    }
+  }
 
-    console.error(LOG_COLORS.success, `\nSuccessfully pulled artifact "${id}"`);
-  });
+  const commitResult = await toAsyncResult(
+    localProvider.commitTemporaryArtifact(project, artifact, temporaryPath),
+    { debug: opts.debug },
+  );
+  if (!commitResult.success) {
+    await discardTemporaryArtifact(temporaryPath, opts, localProvider);
+    throw new ScriptError(`Error creating the ${label} "${artifact.value}"`);
+  }
 
-  const tagsSettlements = await Promise.allSettled(tagsPromises);
-  const pulledTags = [];
-  const failedTags = [];
-  for (let i = 0; i < tagsSettlements.length; i++) {
-    if (tagsSettlements[i].status === "fulfilled") {
-      pulledTags.push(filteredTagsToDownload[i]);
-    } else {
-      failedTags.push(filteredTagsToDownload[i]);
-    }
+  // The metadata is optional, artifacts pushed with older versions do not have one
+  const metadataResult = await toAsyncResult(
+    pullArtifactMetadata(
+      project,
+      artifact,
+      expectedId,
+      localProvider,
+      storageProvider,
+    ),
+    { debug: opts.debug },
+  );
+  if (!metadataResult.success) {
+    console.error(
+      LOG_COLORS.warn,
+      `\nUnable to pull the metadata of the artifact "${artifact.value}"`,
+    );
   }
 
-  const idsSettlements = await Promise.allSettled(idsPromises);
-  const pulledIds = [];
-  const failedIds = [];
-  for (let i = 0; i < idsSettlements.length; i++) {
-    if (idsSettlements[i].status === "fulfilled") {
-      pulledIds.push(filteredIdsToDownload[i]);
-    } else {
-      failedIds.push(filteredIdsToDownload[i]);
-    }
+  if (!expectedId) {
+    console.error(
+      LOG_COLORS.warn,
+      `\nThe tag "${artifact.value}" has been pulled but its content could not be verified, the storage does not record the ID it points to`,
+    );
+    return "unverifiable";
   }
 
-  return {
-    remoteTags,
-    remoteIds,
-    pulledTags,
-    pulledIds,
-    failedTags,
-    failedIds,
-  };
+  console.error(
+    LOG_COLORS.success,
+    `\nSuccessfully pulled artifact "${artifact.value}"`,
+  );
+  return "verified";
+}
+
+/**
+ * Remove the temporary file of an artifact that can not be trusted, a failure of the removal is ignored
+ */
+async function discardTemporaryArtifact(
+  temporaryPath: string,
+  opts: { debug: boolean },
+  localProvider: LocalStorageProvider,
+) {
+  await toAsyncResult(localProvider.deleteTemporaryArtifact(temporaryPath), {
+    debug: opts.debug,
+  });
+}
+
+async function verifyPulledArtifactSignature(
+  project: string,
+  artifact: RemoteArtifact,
+  content: string,
+  trustedPublicKeys: string[],
+  storageProvider: StorageProvider,
+) {
+  const signature = await storageProvider.downloadArtifactSignature(
+    project,
+    artifact,
+  );
+  return verifyArtifactSignature(
+    signature,
+    { project, ...artifact },
+    content,
+    trustedPublicKeys,
+  );
+}
+
+/**
+ * Pull the metadata of a pulled artifact
+ *
+ * For a tag without recorded ID, the ID is the first ID derived from the pulled content that exists in the storage.
+ */
+async function pullArtifactMetadata(
+  project: string,
+  artifact: RemoteArtifact,
+  recordedId: string | undefined,
+  localProvider: LocalStorageProvider,
+  storageProvider: StorageProvider,
+): Promise<void> {
+  let id = recordedId;
+  if (!id) {
+    for (const candidate of await localProvider.retrieveArtifactIdCandidates(
+      project,
+      artifact.value,
+    )) {
+      if (await storageProvider.hasArtifactById(project, candidate)) {
+        id = candidate;
+        break;
+      }
+    }
+  }
+  if (!id) {
+    return;
+  }
+  const metadata = await storageProvider.downloadArtifactMetadata(project, id);
+  if (metadata) {
+    await localProvider.createArtifactMetadata(project, id, metadata);
+  }
 }
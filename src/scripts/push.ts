@@ -1,11 +1,14 @@
-import { StorageProvider } from "../s3-bucket-provider";
+import { KeyObject } from "crypto";
+import { StorageProvider, TagConflictError } from "../storage-provider";
 import { toAsyncResult } from "../utils";
 import {
   LOG_COLORS,
   retrieveFreshCompilationArtifact,
   ScriptError,
 } from "../utils";
-import crypto from "crypto";
+import { generateArtifactMetadata } from "../artifact-metadata";
+import { deriveArtifactId } from "../artifact-id";
+import { readSigningKey, signArtifact } from "../artifact-signature";
 
 export async function pushArtifact(
   artifactPath: string,
@@ -14,6 +17,8 @@ export async function pushArtifact(
   opts: {
     force: boolean;
     debug: boolean;
+    // Path to the private key used to sign the artifact, the artifact is not signed if not provided
+    signingKeyPath?: string;
   },
   storageProvider: StorageProvider,
 ) {
@@ -39,6 +44,9 @@ export async function pushArtifact(
       { debug: opts.debug },
     );
     if (!hasTagResult.success) {
+      if (hasTagResult.error instanceof ScriptError) {
+        throw hasTagResult.error;
+      }
       throw new ScriptError(
         `Error checking if the tag "${tag}" exists on the storage`,
       );
@@ -57,10 +65,40 @@ export async function pushArtifact(
     }
   }
 
-  const hash = crypto.createHash("sha256");
-  hash.update(freshBuildInfoResult.value.content);
-  const checksum = hash.digest("hex");
-  const artifactId = checksum.substring(0, 12);
+  const artifactId = deriveArtifactId(freshBuildInfoResult.value.content);
+
+  let signingKey: KeyObject | undefined = undefined;
+  if (opts.signingKeyPath) {
+    const signingKeyResult = await toAsyncResult(
+      readSigningKey(opts.signingKeyPath),
+      { debug: opts.debug },
+    );
+    if (!signingKeyResult.success) {
+      throw new ScriptError(
+        `Unable to read the signing key at path "${opts.signingKeyPath}". Please, make sure it is a PEM encoded private key.`,
+      );
+    }
+    signingKey = signingKeyResult.value;
+
+    // The ID is signed before being uploaded so that it is never exposed unsigned
+    const idSignatureResult = await toAsyncResult(
+      storageProvider.uploadArtifactSignature(
+        project,
+        { type: "id", value: artifactId },
+        signArtifact(
+          { project, id: artifactId },
+          freshBuildInfoResult.value.content,
+          signingKey,
+        ),
+      ),
+      { debug: opts.debug },
+    );
+    if (!idSignatureResult.success) {
+      throw new ScriptError(
+        `Error pushing the signature of the artifact "${project}:${artifactId}" to the storage`,
+      );
+    }
+  }
 
   const pushResult = await toAsyncResult(
     storageProvider.uploadArtifact(
@@ -68,15 +106,87 @@ export async function pushArtifact(
       artifactId,
       tag,
       freshBuildInfoResult.value.content,
+      { force: opts.force },
     ),
     { debug: opts.debug },
   );
 
   if (!pushResult.success) {
+    if (pushResult.error instanceof TagConflictError) {
+      throw new ScriptError(
+        `The tag "${tag}" has been created on the storage by another push while pushing this artifact. The artifact "${project}:${artifactId}" has been pushed but not tagged. Please, make sure to use a different tag name or use the force flag to overwrite the tag.`,
+      );
+    }
+    if (pushResult.error instanceof ScriptError) {
+      throw pushResult.error;
+    }
     throw new ScriptError(
       `Error pushing the artifact "${project}:${tag || artifactId}" to the storage`,
     );
   }
 
+  // The tag is signed once created, the signature of an existing tag must not be replaced if the tag creation fails
+  // A tag whose signature could not be pushed is removed rather than left unsigned
+  if (tag && signingKey) {
+    const tagSignatureResult = await toAsyncResult(
+      storageProvider.uploadArtifactSignature(
+        project,
+        { type: "tag", value: tag },
+        signArtifact(
+          { project, id: artifactId, tag },
+          freshBuildInfoResult.value.content,
+          signingKey,
+        ),
+      ),
+      { debug: opts.debug },
+    );
+    if (!tagSignatureResult.success) {
+      const rollbackResult = await toAsyncResult(
+        storageProvider.deleteTag(project, tag, { dryRun: false }),
+        { debug: opts.debug },
+      );
+      if (!rollbackResult.success) {
+        throw new ScriptError(
+          `The artifact "${project}:${tag}" has been pushed but its signature could not be pushed and the tag could not be removed. Please, push it again using the force flag.`,
+        );
+      }
+      throw new ScriptError(
+        `The signature of the tag "${tag}" could not be pushed, the tag has been removed. The artifact "${project}:${artifactId}" has been pushed, please push it again in order to tag it.`,
+      );
+    }
+  }
+
+  // The signature of a moved tag binds the tag to its previous ID, it is removed if the tag is not signed again
+  if (tag && !signingKey && opts.force) {
+    const staleSignatureResult = await toAsyncResult(
+      storageProvider.deleteArtifactSignature(project, {
+        type: "tag",
+        value: tag,
+      }),
+      { debug: opts.debug },
+    );
+    if (!staleSignatureResult.success) {
+      throw new ScriptError(
+        `The artifact "${project}:${tag}" has been pushed but the previous signature of the tag could not be removed. Please, push it again using the force flag.`,
+      );
+    }
+  }
+
+  const metadataResult = await toAsyncResult(
+    generateArtifactMetadata(
+      artifactId,
+      freshBuildInfoResult.value.content,
+    ).then((metadata) =>
+      storageProvider.uploadArtifactMetadata(project, artifactId, metadata),
+    ),
+    { debug: opts.debug },
+  );
+  if (!metadataResult.success) {
+    console.error(
+      LOG_COLORS.warn,
+      `The metadata of the artifact "${project}:${artifactId}" could not be pushed. The artifact has been pushed without it.`,
+    );
+  }
+
   return artifactId;
 }
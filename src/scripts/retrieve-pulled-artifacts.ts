@@ -0,0 +1,155 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { z } from "zod";
+import { ScriptError, toAsyncResult, type ZBuildInfo } from "../utils";
+import { StorageProvider } from "../storage-provider";
+import { LocalStorageProvider } from "./local-storage-provider";
+import { pull, SignatureVerificationOptions } from "./pull";
+
+/**
+ * Resolve a pulled artifact, identified by a tag or an ID
+ * @returns The type and the value of the pulled artifact
+ */
+export async function resolvePulledArtifact(
+  artifact: { project: string; tagOrId: string },
+  localProvider: LocalStorageProvider,
+): Promise<{ type: "tag" | "id"; value: string }> {
+  const localArtifact = await localProvider.resolveLocalArtifact(
+    artifact.project,
+    artifact.tagOrId,
+  );
+  if (!localArtifact) {
+    throw new ScriptError(
+      `The artifact "${artifact.project}:${artifact.tagOrId}" has not been found locally. Please, make sure to pull the artifact first.`,
+    );
+  }
+  return localArtifact;
+}
+
+/**
+ * Retrieve the build infos of artifacts, the missing artifacts are pulled if the storage provider is given
+ *
+ * The temporary directory of the pulled artifacts is removed once the build infos are retrieved.
+ * @param artifacts The project and the tag or ID of each artifact
+ * @param opts.temporaryPull Whether to pull the missing artifacts into a temporary directory instead of the local storage
+ * @param opts.signatureVerification Verification of the signatures of the missing artifacts when pulled
+ * @param storageProvider The storage provider, used to pull the missing artifacts
+ * @returns The build infos of each artifact, in the order of the artifacts
+ */
+export async function retrievePulledBuildInfos(
+  artifacts: { project: string; tagOrId: string }[],
+  opts: {
+    debug?: boolean;
+    temporaryPull?: boolean;
+    signatureVerification?: SignatureVerificationOptions;
+  },
+  localProvider: LocalStorageProvider,
+  storageProvider: StorageProvider | undefined,
+): Promise<z.infer<typeof ZBuildInfo>[][]> {
+  let temporaryProvider: LocalStorageProvider | undefined = undefined;
+  try {
+    const buildInfos: z.infer<typeof ZBuildInfo>[][] = [];
+    for (const artifact of artifacts) {
+      if (
+        !storageProvider ||
+        (await localProvider.resolveLocalArtifact(
+          artifact.project,
+          artifact.tagOrId,
+        ))
+      ) {
+        buildInfos.push(
+          await retrieveLocalBuildInfos(artifact, opts, localProvider),
+        );
+        continue;
+      }
+      let pullProvider = localProvider;
+      if (opts.temporaryPull) {
+        if (!temporaryProvider) {
+          temporaryProvider = new LocalStorageProvider(
+            await fs.mkdtemp(path.join(os.tmpdir(), "soko-pull-")),
+          );
+        }
+        pullProvider = temporaryProvider;
+      }
+      await pullMissingArtifact(artifact, opts, pullProvider, storageProvider);
+      buildInfos.push(
+        await retrieveLocalBuildInfos(artifact, opts, pullProvider),
+      );
+    }
+    return buildInfos;
+  } finally {
+    if (temporaryProvider) {
+      await fs.rm(temporaryProvider.rootPath, { recursive: true, force: true });
+    }
+  }
+}
+
+async function pullMissingArtifact(
+  artifact: { project: string; tagOrId: string },
+  opts: {
+    debug?: boolean;
+    signatureVerification?: SignatureVerificationOptions;
+  },
+  localProvider: LocalStorageProvider,
+  storageProvider: StorageProvider,
+): Promise<void> {
+  const pullResult = await toAsyncResult(
+    localProvider.ensureProjectSetup(artifact.project).then(() =>
+      pull(
+        artifact.project,
+        artifact.tagOrId,
+        {
+          force: false,
+          debug: Boolean(opts.debug),
+          signatureVerification: opts.signatureVerification,
+        },
+        localProvider,
+        storageProvider,
+      ),
+    ),
+    { debug: opts.debug },
+  );
+  if (!pullResult.success) {
+    if (pullResult.error instanceof ScriptError) {
+      throw pullResult.error;
+    }
+    throw new ScriptError(
+      `Error pulling the artifact "${artifact.project}:${artifact.tagOrId}"`,
+    );
+  }
+  if (
+    pullResult.value.failedTags.length > 0 ||
+    pullResult.value.failedIds.length > 0
+  ) {
+    throw new ScriptError(
+      `Unable to pull the artifact "${artifact.project}:${artifact.tagOrId}"`,
+    );
+  }
+}
+
+async function retrieveLocalBuildInfos(
+  artifact: { project: string; tagOrId: string },
+  opts: { debug?: boolean },
+  localProvider: LocalStorageProvider,
+): Promise<z.infer<typeof ZBuildInfo>[]> {
+  const localArtifact = await resolvePulledArtifact(artifact, localProvider);
+  const buildInfosResult = await toAsyncResult(
+    localArtifact.type === "tag"
+      ? localProvider.retrieveBuildInfosByTag(
+          artifact.project,
+          localArtifact.value,
+        )
+      : localProvider.retrieveBuildInfosById(
+          artifact.project,
+          localArtifact.value,
+        ),
+    { debug: opts.debug },
+  );
+  if (!buildInfosResult.success) {
+    throw new ScriptError(
+      `Unable to retrieve the content of the artifact "${artifact.project}:${artifact.tagOrId}"`,
+    );
+  }
+  return buildInfosResult.value;
+}
@@ -0,0 +1,147 @@
+import { StorageProvider, TagConflictError } from "../storage-provider";
+import {
+  LOG_COLORS,
+  ScriptError,
+  streamToString,
+  toAsyncResult,
+} from "../utils";
+import {
+  ArtifactSignature,
+  readSigningKey,
+  signArtifact,
+} from "../artifact-signature";
+
+/**
+ * Attach a tag to an artifact ID already pushed to the storage, without uploading the artifact again
+ * @param project The project name
+ * @param id The ID of the artifact to tag
+ * @param tag The tag to attach
+ * @param opts.force Whether to move the tag if it already exists
+ * @param opts.signingKeyPath Path to the private key used to sign the tag, the tag is not signed if not provided
+ * @param opts.debug Whether to enable debug mode
+ * @param storageProvider The storage provider
+ */
+export async function tagArtifact(
+  project: string,
+  id: string,
+  tag: string,
+  opts: { force: boolean; debug: boolean; signingKeyPath?: string },
+  storageProvider: StorageProvider,
+): Promise<void> {
+  const hasIdResult = await toAsyncResult(
+    storageProvider.hasArtifactById(project, id),
+    { debug: opts.debug },
+  );
+  if (!hasIdResult.success) {
+    if (hasIdResult.error instanceof ScriptError) {
+      throw hasIdResult.error;
+    }
+    throw new ScriptError(
+      `Error checking if the ID "${id}" exists on the storage`,
+    );
+  }
+  if (!hasIdResult.value) {
+    throw new ScriptError(
+      `The ID "${id}" does not exist on the storage. Please, make sure to push the artifact first.`,
+    );
+  }
+
+  const hasTagResult = await toAsyncResult(
+    storageProvider.hasArtifactByTag(project, tag),
+    { debug: opts.debug },
+  );
+  if (!hasTagResult.success) {
+    throw new ScriptError(
+      `Error checking if the tag "${tag}" exists on the storage`,
+    );
+  }
+  if (hasTagResult.value) {
+    if (!opts.force) {
+      throw new ScriptError(
+        `The tag "${tag}" already exists on the storage. Please, make sure to use a different tag name or use the force flag to move it.`,
+      );
+    }
+    console.error(
+      LOG_COLORS.warn,
+      `The tag "${tag}" already exists on the storage. Forcing the move of the tag.`,
+    );
+  }
+
+  // The signature is computed before tagging in order to fail early with an invalid key
+  let signature: ArtifactSignature | undefined = undefined;
+  if (opts.signingKeyPath) {
+    const signingKeyPath = opts.signingKeyPath;
+    const signatureResult = await toAsyncResult(
+      Promise.all([
+        readSigningKey(signingKeyPath),
+        storageProvider.downloadArtifactById(project, id).then(streamToString),
+      ]).then(([signingKey, content]) =>
+        signArtifact({ project, id, tag }, content, signingKey),
+      ),
+      { debug: opts.debug },
+    );
+    if (!signatureResult.success) {
+      throw new ScriptError(
+        `Unable to sign the tag "${tag}" with the signing key at path "${signingKeyPath}"`,
+      );
+    }
+    signature = signatureResult.value;
+  }
+
+  const tagResult = await toAsyncResult(
+    storageProvider.tagArtifact(project, id, tag, { force: opts.force }),
+    { debug: opts.debug },
+  );
+  if (!tagResult.success) {
+    if (tagResult.error instanceof TagConflictError) {
+      throw new ScriptError(
+        `The tag "${tag}" has been created on the storage by another operation in the meantime. Please, make sure to use a different tag name or use the force flag to move it.`,
+      );
+    }
+    throw new ScriptError(
+      `Error tagging the artifact "${project}:${id}" with "${tag}"`,
+    );
+  }
+
+  // Without signing key, a moved tag is left unsigned rather than with a signature of its previous ID
+  if (!signature && opts.force) {
+    const staleSignatureResult = await toAsyncResult(
+      storageProvider.deleteArtifactSignature(project, {
+        type: "tag",
+        value: tag,
+      }),
+      { debug: opts.debug },
+    );
+    if (!staleSignatureResult.success) {
+      throw new ScriptError(
+        `The artifact "${project}:${id}" has been tagged with "${tag}" but the previous signature of the tag could not be removed. Please, tag it again using the force flag.`,
+      );
+    }
+  }
+
+  // A tag whose signature could not be pushed is removed rather than left unsigned
+  if (signature) {
+    const tagSignatureResult = await toAsyncResult(
+      storageProvider.uploadArtifactSignature(
+        project,
+        { type: "tag", value: tag },
+        signature,
+      ),
+      { debug: opts.debug },
+    );
+    if (!tagSignatureResult.success) {
+      const rollbackResult = await toAsyncResult(
+        storageProvider.deleteTag(project, tag, { dryRun: false }),
+        { debug: opts.debug },
+      );
+      if (!rollbackResult.success) {
+        throw new ScriptError(
+          `The artifact "${project}:${id}" has been tagged with "${tag}" but the signature of the tag could not be pushed and the tag could not be removed. Please, tag it again using the force flag.`,
+        );
+      }
+      throw new ScriptError(
+        `The signature of the tag "${tag}" could not be pushed, the tag has been removed. Please, tag the artifact "${project}:${id}" again.`,
+      );
+    }
+  }
+}
@@ -0,0 +1,241 @@
+import { z } from "zod";
+import { ScriptError, toAsyncResult } from "../utils";
+import { splitMetadataSuffix } from "../bytecode";
+import { LocalStorageProvider } from "./local-storage-provider";
+import { retrievePulledBuildInfos } from "./retrieve-pulled-artifacts";
+
+/**
+ * Minimal JSON-RPC provider, e.g. the provider of the Hardhat network
+ */
+export type JsonRpcProvider = {
+  request(args: { method: string; params?: unknown[] }): Promise<unknown>;
+};
+
+/**
+ * Result of the verification of a deployed contract:
+ * - `match`: the executable code matches, `metadataMatch` tells whether the metadata suffix matches too,
+ * - `mismatch`: the executable code differs,
+ * - `no-code`: there is no code at the address.
+ */
+export type DeploymentVerification =
+  | { status: "match"; metadataMatch: boolean; maskedBytes: number }
+  | { status: "mismatch"; reason: string }
+  | { status: "no-code" };
+
+const ZByteRanges = z.array(
+  z.object({ start: z.number(), length: z.number() }),
+);
+
+const ZDeployedBytecode = z.object({
+  object: z.string(),
+  linkReferences: z.record(z.record(z.string(), ZByteRanges)).optional(),
+  immutableReferences: z.record(z.string(), ZByteRanges).optional(),
+});
+
+// Placeholder of a library address in an unlinked bytecode, e.g. `__$<34 hex characters>$__`
+const LIBRARY_PLACEHOLDER_REGEX = /__\$[0-9a-fA-F]{34}\$__/g;
+
+// A library starts with `PUSH20 <address>`, the address is zero in the compiled code and set to the library address at deployment
+const LIBRARY_CALL_PROTECTION_PREFIX = `73${"0".repeat(40)}`;
+
+/**
+ * Verify that the code deployed at an address matches the deployed bytecode of a contract of a pulled artifact
+ *
+ * The immutable variables, the library addresses and the metadata suffix are not compared, the metadata match is reported separately.
+ * @param artifact The project and the tag or ID of the pulled artifact
+ * @param deployment.contract The contract, formatted as `<file path>:<contract name>`
+ * @param deployment.address The address of the deployed contract
+ * @param rpcProvider The JSON-RPC provider of the network of the deployment
+ * @returns The result of the verification
+ */
+export async function verifyDeployment(
+  artifact: { project: string; tagOrId: string },
+  deployment: { contract: string; address: string },
+  opts: { debug?: boolean },
+  localProvider: LocalStorageProvider,
+  rpcProvider: JsonRpcProvider,
+): Promise<DeploymentVerification> {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(deployment.address)) {
+    throw new ScriptError(`The address "${deployment.address}" is not valid`);
+  }
+
+  const [buildInfos] = await retrievePulledBuildInfos(
+    [artifact],
+    opts,
+    localProvider,
+    undefined,
+  );
+
+  const separatorIndex = deployment.contract.lastIndexOf(":");
+  const contractPath = deployment.contract.substring(0, separatorIndex);
+  const contractName = deployment.contract.substring(separatorIndex + 1);
+  const contract = buildInfos
+    .map(
+      (buildInfo) => buildInfo.output.contracts[contractPath]?.[contractName],
+    )
+    .find((contract) => contract !== undefined);
+  if (separatorIndex === -1 || !contract) {
+    throw new ScriptError(
+      `The contract "${deployment.contract}" is not part of the artifact "${artifact.project}:${artifact.tagOrId}", the contract must be formatted as \`<file path>:<contract name>\``,
+    );
+  }
+  const deployedBytecodeResult = ZDeployedBytecode.safeParse(
+    contract.evm.deployedBytecode,
+  );
+  if (!deployedBytecodeResult.success) {
+    throw new ScriptError(
+      `The artifact does not contain the deployed bytecode of the contract "${deployment.contract}"`,
+    );
+  }
+
+  const codeResult = await toAsyncResult(
+    rpcProvider.request({
+      method: "eth_getCode",
+      params: [deployment.address, "latest"],
+    }),
+    { debug: opts.debug },
+  );
+  if (!codeResult.success) {
+    throw new ScriptError(
+      `Error retrieving the code at address "${deployment.address}"`,
+    );
+  }
+  if (typeof codeResult.value !== "string") {
+    throw new ScriptError(
+      `Invalid code retrieved at address "${deployment.address}"`,
+    );
+  }
+
+  return compareDeployedCode(deployedBytecodeResult.data, codeResult.value);
+}
+
+function compareDeployedCode(
+  deployedBytecode: z.infer<typeof ZDeployedBytecode>,
+  onchainCode: string,
+): DeploymentVerification {
+  const actual = stripHexPrefix(onchainCode).toLowerCase();
+  if (actual.length === 0) {
+    return { status: "no-code" };
+  }
+  const expected = stripHexPrefix(deployedBytecode.object).toLowerCase();
+
+  const maskedRanges: z.infer<typeof ZByteRanges> = [];
+  for (const ranges of Object.values(
+    deployedBytecode.immutableReferences ?? {},
+  )) {
+    maskedRanges.push(...ranges);
+  }
+  for (const libraries of Object.values(
+    deployedBytecode.linkReferences ?? {},
+  )) {
+    for (const ranges of Object.values(libraries)) {
+      maskedRanges.push(...ranges);
+    }
+  }
+  if (expected.startsWith(LIBRARY_CALL_PROTECTION_PREFIX)) {
+    maskedRanges.push({ start: 1, length: 20 });
+  }
+  // The placeholders are masked even if the link references are missing
+  for (const match of expected.matchAll(LIBRARY_PLACEHOLDER_REGEX)) {
+    maskedRanges.push({ start: (match.index ?? 0) / 2, length: 20 });
+  }
+
+  const expectedParts = splitMetadataSuffix(expected);
+  const actualParts = splitMetadataSuffix(actual);
+  if (expectedParts.code.length !== actualParts.code.length) {
+    return {
+      status: "mismatch",
+      reason: `the deployed code is ${actualParts.code.length / 2} bytes long, ${expectedParts.code.length / 2} bytes are expected`,
+    };
+  }
+
+  const maskedExpected = maskByteRanges(expectedParts.code, maskedRanges);
+  const maskedActual = maskByteRanges(actualParts.code, maskedRanges);
+  if (maskedExpected !== maskedActual) {
+    let firstDifference = 0;
+    while (
+      maskedExpected.substring(firstDifference * 2, firstDifference * 2 + 2) ===
+      maskedActual.substring(firstDifference * 2, firstDifference * 2 + 2)
+    ) {
+      firstDifference++;
+    }
+    return {
+      status: "mismatch",
+      reason: `the deployed code differs from byte ${firstDifference}`,
+    };
+  }
+
+  const maskedBytes = new Set<number>();
+  for (const range of maskedRanges) {
+    for (let i = range.start; i < range.start + range.length; i++) {
+      maskedBytes.add(i);
+    }
+  }
+  return {
+    status: "match",
+    metadataMatch: expectedParts.metadata === actualParts.metadata,
+    maskedBytes: maskedBytes.size,
+  };
+}
+
+/**
+ * Replace the byte ranges of a hex string by zeros, the ranges beyond the string are ignored
+ */
+function maskByteRanges(
+  hex: string,
+  ranges: z.infer<typeof ZByteRanges>,
+): string {
+  let masked = hex;
+  for (const range of ranges) {
+    const start = range.start * 2;
+    const end = Math.min((range.start + range.length) * 2, masked.length);
+    if (start >= end) continue;
+    masked =
+      masked.substring(0, start) +
+      "0".repeat(end - start) +
+      masked.substring(end);
+  }
+  return masked;
+}
+
+function stripHexPrefix(hex: string): string {
+  return hex.startsWith("0x") ? hex.slice(2) : hex;
+}
+
+/**
+ * Create a JSON-RPC provider sending the requests to an HTTP endpoint
+ * @param url The URL of the JSON-RPC endpoint
+ * @returns The provider
+ */
+export function createHttpJsonRpcProvider(url: string): JsonRpcProvider {
+  let requestId = 0;
+  return {
+    async request({ method, params }) {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          id: ++requestId,
+          method,
+          params: params ?? [],
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(
+          `The JSON-RPC endpoint responded with the status ${response.status}`,
+        );
+      }
+      const body = (await response.json()) as {
+        result?: unknown;
+        error?: { message?: string };
+      };
+      if (body.error) {
+        throw new Error(
+          `The JSON-RPC request failed: ${body.error.message ?? "unknown error"}`,
+        );
+      }
+      return body.result;
+    },
+  };
+}
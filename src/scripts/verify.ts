@@ -0,0 +1,176 @@
+import { StorageProvider } from "../storage-provider";
+import { ScriptError, toAsyncResult } from "../utils";
+import { LocalStorageProvider } from "./local-storage-provider";
+
+type IntegrityIssue = {
+  project: string;
+  path: string;
+  // A corrupted file can not be trusted, an orphaned file is not attached to any known artifact ID
+  kind: "corrupted" | "orphaned";
+  reason: string;
+};
+
+/**
+ * Verify the integrity of the pulled artifacts
+ *
+ * For each project:
+ * - the content of every ID is hashed again and compared with the ID,
+ * - the content of every tag must match an ID, either pulled or present in the storage,
+ * - every metadata must belong to a pulled ID or tag.
+ * @param opts.project Restrict the verification to a project
+ * @param opts.debug Whether to enable debug mode
+ * @param localProvider The local storage provider
+ * @param storageProvider The storage provider, used for the tags whose ID has not been pulled
+ * @returns The number of verified files and the integrity issues
+ */
+export async function verifyPulledArtifacts(
+  opts: { project?: string; debug: boolean },
+  localProvider: LocalStorageProvider,
+  storageProvider: StorageProvider,
+): Promise<{ verifiedFiles: number; issues: IntegrityIssue[] }> {
+  const projectsResult = await toAsyncResult(localProvider.listProjects(), {
+    debug: opts.debug,
+  });
+  if (!projectsResult.success) {
+    throw new ScriptError("Error listing the projects");
+  }
+  const projects = projectsResult.value.filter(
+    (project) => !opts.project || project === opts.project,
+  );
+  if (opts.project && projects.length === 0) {
+    throw new ScriptError(`The project "${opts.project}" has not been pulled`);
+  }
+
+  let verifiedFiles = 0;
+  const issues: IntegrityIssue[] = [];
+  for (const project of projects) {
+    const projectResult = await toAsyncResult(
+      verifyProject(project, localProvider, storageProvider),
+      { debug: opts.debug },
+    );
+    if (!projectResult.success) {
+      if (projectResult.error instanceof ScriptError) {
+        throw projectResult.error;
+      }
+      throw new ScriptError(
+        `Error verifying the artifacts of project "${project}"`,
+      );
+    }
+    verifiedFiles += projectResult.value.verifiedFiles;
+    issues.push(...projectResult.value.issues);
+  }
+
+  return { verifiedFiles, issues };
+}
+
+async function verifyProject(
+  project: string,
+  localProvider: LocalStorageProvider,
+  storageProvider: StorageProvider,
+): Promise<{ verifiedFiles: number; issues: IntegrityIssue[] }> {
+  const projectPath = `${localProvider.rootPath}/${project}`;
+  const [ids, tags, metadataIds] = await Promise.all([
+    localProvider.listIds(project),
+    localProvider.listTags(project),
+    localProvider.listMetadataIds(project),
+  ]);
+
+  const issues: IntegrityIssue[] = [];
+  const report = (
+    path: string,
+    kind: IntegrityIssue["kind"],
+    reason: string,
+  ) => {
+    issues.push({ project, path, kind, reason });
+  };
+
+  const validIds = new Set<string>();
+  for (const { id } of ids) {
+    const path = `${projectPath}/ids/${id}.json`;
+    const matchResult = await toAsyncResult(
+      localProvider.matchesArtifactId(project, { type: "id", value: id }, id),
+    );
+    if (!matchResult.success) {
+      report(path, "corrupted", "the file can not be read");
+      continue;
+    }
+    if (!matchResult.value) {
+      report(path, "corrupted", "the content does not match the ID");
+      continue;
+    }
+    validIds.add(id);
+  }
+
+  // The IDs are looked up in the storage once, only for the tags whose ID has not been pulled
+  const remoteIdChecks = new Map<string, Promise<boolean>>();
+  const isKnownId = (id: string): Promise<boolean> => {
+    if (validIds.has(id)) {
+      return Promise.resolve(true);
+    }
+    let check = remoteIdChecks.get(id);
+    if (!check) {
+      check = storageProvider.hasArtifactById(project, id);
+      remoteIdChecks.set(id, check);
+    }
+    return check;
+  };
+
+  const tagIds = new Set<string>();
+  for (const { tag } of tags) {
+    const path = `${projectPath}/tags/${tag}.json`;
+    const candidatesResult = await toAsyncResult(
+      localProvider.retrieveArtifactIdCandidates(project, tag),
+    );
+    if (!candidatesResult.success) {
+      report(path, "corrupted", "the file can not be read");
+      continue;
+    }
+    // The tag may point to an ID derived with any version of the derivation
+    const knownIdResult = await toAsyncResult(
+      (async () => {
+        for (const candidate of candidatesResult.value) {
+          if (await isKnownId(candidate)) {
+            return candidate;
+          }
+        }
+        return undefined;
+      })(),
+    );
+    if (!knownIdResult.success) {
+      if (knownIdResult.error instanceof ScriptError) {
+        throw knownIdResult.error;
+      }
+      throw new ScriptError(
+        `Error checking if the tag "${tag}" points to an ID of the storage`,
+      );
+    }
+    if (!knownIdResult.value) {
+      report(
+        path,
+        "orphaned",
+        "the content matches no ID, neither pulled nor in the storage",
+      );
+      continue;
+    }
+    tagIds.add(knownIdResult.value);
+  }
+
+  for (const id of metadataIds) {
+    const path = `${projectPath}/metadata/${id}.json`;
+    const metadataResult = await toAsyncResult(
+      localProvider.retrieveArtifactMetadata(project, id),
+    );
+    if (!metadataResult.success || metadataResult.value?.id !== id) {
+      report(path, "corrupted", "the file is not a valid artifact metadata");
+      continue;
+    }
+    if (!validIds.has(id) && !tagIds.has(id)) {
+      report(path, "orphaned", "no pulled ID or tag matches the metadata");
+    }
+  }
+
+  return {
+    verifiedFiles: ids.length + tags.length + metadataIds.length,
+    issues,
+  };
+}
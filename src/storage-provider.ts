@@ -0,0 +1,115 @@
+import { Stream } from "stream";
+import { ArtifactMetadata } from "./artifact-metadata";
+import { ArtifactSignature } from "./artifact-signature";
+
+export interface StorageProvider {
+  listProjects(): AsyncIterable<string>;
+  /**
+   * Iterate over the tags of a project, the listing is lazily fetched page by page
+   */
+  listTags(project: string): AsyncIterable<string>;
+  /**
+   * Iterate over the IDs of a project, the listing is lazily fetched page by page
+   */
+  listIds(project: string): AsyncIterable<string>;
+  hasArtifactByTag(project: string, tag: string): Promise<boolean>;
+  hasArtifactById(project: string, tag: string): Promise<boolean>;
+  /**
+   * Retrieve the ID of the artifact a tag points to
+   */
+  retrieveArtifactIdByTag(project: string, tag: string): Promise<string>;
+  /**
+   * Retrieve the ID recorded when a tag has been written, it does not depend on the content of the tag
+   * @returns The recorded ID, or `undefined` if the tag has been written before the IDs were recorded
+   */
+  retrieveRecordedArtifactIdByTag(
+    project: string,
+    tag: string,
+  ): Promise<string | undefined>;
+  /**
+   * Upload an artifact by ID and optionally tag it
+   *
+   * The tag is created only if it does not exist yet, unless the force option is enabled.
+   * @throws TagConflictError if the tag already exists and the force option is not enabled
+   */
+  uploadArtifact(
+    project: string,
+    id: string,
+    tag: string | undefined,
+    content: string,
+    opts: { force: boolean },
+  ): Promise<void>;
+  /**
+   * Create or move a tag so that it points to an already uploaded artifact ID, without uploading the artifact again
+   *
+   * The tag is created only if it does not exist yet, unless the force option is enabled.
+   * @throws TagConflictError if the tag already exists and the force option is not enabled
+   */
+  tagArtifact(
+    project: string,
+    id: string,
+    tag: string,
+    opts: { force: boolean },
+  ): Promise<void>;
+  /**
+   * Delete a tag along with its signature, the artifact ID it points to is kept
+   * @param opts.dryRun If enabled, nothing is deleted
+   * @returns The keys that have been, or would be, deleted
+   */
+  deleteTag(
+    project: string,
+    tag: string,
+    opts: { dryRun: boolean },
+  ): Promise<string[]>;
+  /**
+   * Delete an artifact ID along with its metadata and its signature, the tags are not deleted
+   * @param opts.dryRun If enabled, nothing is deleted
+   * @returns The keys that have been, or would be, deleted
+   */
+  deleteId(
+    project: string,
+    id: string,
+    opts: { dryRun: boolean },
+  ): Promise<string[]>;
+  downloadArtifactById(project: string, id: string): Promise<Stream>;
+  downloadArtifactByTag(project: string, tag: string): Promise<Stream>;
+  uploadArtifactMetadata(
+    project: string,
+    id: string,
+    metadata: ArtifactMetadata,
+  ): Promise<void>;
+  /**
+   * Download the metadata of an artifact ID
+   * @returns The metadata, or `undefined` if the artifact has been pushed without metadata
+   */
+  downloadArtifactMetadata(
+    project: string,
+    id: string,
+  ): Promise<ArtifactMetadata | undefined>;
+  uploadArtifactSignature(
+    project: string,
+    artifact: { type: "tag" | "id"; value: string },
+    signature: ArtifactSignature,
+  ): Promise<void>;
+  /**
+   * Delete the signature of an artifact ID or of a tag, nothing is done if it is not signed
+   */
+  deleteArtifactSignature(
+    project: string,
+    artifact: { type: "tag" | "id"; value: string },
+  ): Promise<void>;
+  /**
+   * Download the signature of an artifact ID or of a tag
+   * @returns The signature, or `undefined` if the artifact has been pushed without signing key
+   */
+  downloadArtifactSignature(
+    project: string,
+    artifact: { type: "tag" | "id"; value: string },
+  ): Promise<ArtifactSignature | undefined>;
+}
+
+export class TagConflictError extends Error {
+  constructor(project: string, tag: string) {
+    super(`The tag "${tag}" already exists for project "${project}"`);
+  }
+}
@@ -3,6 +3,8 @@ import fs from "fs/promises";
 import { z } from "zod";
 import { keccak256 } from "@ethersproject/keccak256";
 import { toUtf8Bytes } from "@ethersproject/strings";
+import { Readable, Stream } from "stream";
+import { createArtifactBundle } from "./artifact-bundle";
 
 export function toAsyncResult<T, TError = Error>(
   promise: Promise<T>,
@@ -26,6 +28,72 @@ export class ScriptError extends Error {
   }
 }
 
+export function streamToString(stream: Stream): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    stream.on("data", (chunk) => chunks.push(Buffer.from(chunk)));
+    stream.on("error", reject);
+    stream.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+  });
+}
+
+/**
+ * Read the first bytes of a stream, the chunks are buffered until the expected length is read or the stream ends
+ * @param stream The stream to read
+ * @param length Number of bytes to read
+ * @returns The head, shorter than the expected length if the stream ended before, and a stream replaying the whole content
+ */
+export async function readStreamHead(
+  stream: Readable,
+  length: number,
+): Promise<{ head: Buffer; stream: Readable }> {
+  const iterator: AsyncIterator<Buffer | string> =
+    stream[Symbol.asyncIterator]();
+  const chunks: Buffer[] = [];
+  let readLength = 0;
+  while (readLength < length) {
+    const result = await iterator.next();
+    if (result.done) {
+      break;
+    }
+    const chunk = Buffer.from(result.value);
+    chunks.push(chunk);
+    readLength += chunk.length;
+  }
+  const bufferedContent = Buffer.concat(chunks);
+
+  async function* replay() {
+    if (bufferedContent.length > 0) {
+      yield bufferedContent;
+    }
+    while (true) {
+      const result = await iterator.next();
+      if (result.done) {
+        return;
+      }
+      yield Buffer.from(result.value);
+    }
+  }
+  return {
+    head: bufferedContent.subarray(0, length),
+    stream: Readable.from(replay()),
+  };
+}
+
+/**
+ * Format a size in bytes for display, e.g. `12.3 MB`
+ */
+export function formatSize(bytes: number): string {
+  const units = ["B", "kB", "MB", "GB"];
+  let size = bytes;
+  let unitIndex = 0;
+  while (size >= 1000 && unitIndex < units.length - 1) {
+    size /= 1000;
+    unitIndex++;
+  }
+  return `${unitIndex === 0 ? size : size.toFixed(1)} ${units[unitIndex]}`;
+}
+
 export const LOG_COLORS = {
   log: "\x1b[0m%s\x1b[0m",
   success: "\x1b[32m%s\x1b[0m",
@@ -67,13 +135,15 @@ const ZBytecode = z.object({
     .optional(),
 });
 
+// The constructor, the fallback and the receive functions have no name, the events and the errors have no state mutability
 const ZAbi = z.array(
   z.object({
-    inputs: z.array(ZJson),
-    name: z.string(),
+    inputs: z.array(ZJson).optional(),
+    name: z.string().optional(),
     outputs: z.array(ZJson).optional(),
-    stateMutability: z.string(),
+    stateMutability: z.string().optional(),
     type: z.string(),
+    anonymous: z.boolean().optional(),
   }),
 );
 
@@ -195,7 +265,7 @@ export async function retrieveFreshCompilationArtifact(
     };
   }
 
-  let compilationArtifactPath: string | undefined = undefined;
+  let compilationArtifactPaths: string[] | undefined = undefined;
 
   if (stat.isFile()) {
     if (!inputPath.endsWith(".json")) {
@@ -204,7 +274,7 @@ export async function retrieveFreshCompilationArtifact(
         reason: `The file at path "${inputPath}" is not a json file. Compilation artifact must be a json file.`,
       };
     }
-    compilationArtifactPath = inputPath;
+    compilationArtifactPaths = [inputPath];
   } else if (stat.isDirectory()) {
     const entries = await fs.readdir(inputPath, { withFileTypes: true });
 
@@ -212,7 +282,7 @@ export async function retrieveFreshCompilationArtifact(
       undefined;
     let finalBasePath: string = inputPath;
 
-    // If we found only json files, we assume that we are in the final folder, we then expect only one file
+    // If we found only json files, we assume that we are in the final folder
     if (
       entries.every((entry) => entry.isFile() && entry.name.endsWith(".json"))
     ) {
@@ -249,11 +319,20 @@ export async function retrieveFreshCompilationArtifact(
       return checkResult;
     }
 
-    compilationArtifactPath = `${finalBasePath}/${checkResult.name}`;
-    console.error(
-      LOG_COLORS.log,
-      `Found a potential compilation artifact in path "${compilationArtifactPath}"`,
+    compilationArtifactPaths = checkResult.names.map(
+      (name) => `${finalBasePath}/${name}`,
     );
+    if (compilationArtifactPaths.length === 1) {
+      console.error(
+        LOG_COLORS.log,
+        `Found a potential compilation artifact in path "${compilationArtifactPaths[0]}"`,
+      );
+    } else {
+      console.error(
+        LOG_COLORS.log,
+        `Found ${compilationArtifactPaths.length} potential compilation artifacts in path "${finalBasePath}", they will be bundled in a single artifact`,
+      );
+    }
   } else {
     return {
       status: "error",
@@ -261,12 +340,18 @@ export async function retrieveFreshCompilationArtifact(
     };
   }
 
-  if (!compilationArtifactPath) {
+  if (!compilationArtifactPaths) {
     throw new Error("No compilation artifact found");
   }
 
   const contentResult = await toAsyncResult(
-    readBuildInfoFile(compilationArtifactPath),
+    (async () => {
+      const contents: string[] = [];
+      for (const compilationArtifactPath of compilationArtifactPaths) {
+        contents.push(await readBuildInfoFile(compilationArtifactPath));
+      }
+      return createArtifactBundle(contents);
+    })(),
   );
 
   if (!contentResult.success) {
@@ -275,7 +360,11 @@ export async function retrieveFreshCompilationArtifact(
 
   return {
     status: "success",
-    path: compilationArtifactPath,
+    // The input path is used for a bundle of multiple build infos
+    path:
+      compilationArtifactPaths.length === 1
+        ? compilationArtifactPaths[0]
+        : inputPath,
     content: contentResult.value,
   };
 }
@@ -321,6 +410,8 @@ const ZForgeContractCompilationOutput = z.object({
   methodIdentifiers: z.record(z.string(), z.string()).optional(),
   // Map to output.contracts.<contract>.metadata
   rawMetadata: z.string(),
+  // ID of the source of the contract in its compilation
+  id: z.number().optional(),
   metadata: z.object({
     compiler: z.object({
       // Map to solcLongVersion
@@ -377,6 +468,27 @@ async function rebuildBuildInfoFromForgeFormat(
       );
     }
 
+    const compilationTargetEntries = Object.entries(
+      contractContentResult.value.metadata.settings.compilationTarget,
+    );
+    if (compilationTargetEntries.length !== 1) {
+      throw new Error(
+        `Invalid compilation target in contract file "${artifactPath}"`,
+      );
+    }
+    const [contractPath, contractName] = compilationTargetEntries[0];
+    // The contracts of the other compilations of the project, i.e. of the other build info files, are skipped
+    if (!expectedPathsSet.has(contractPath)) {
+      continue;
+    }
+    const sourceId = contractContentResult.value.id;
+    if (
+      sourceId !== undefined &&
+      forgeBuildInfo.source_id_to_path[sourceId] !== contractPath
+    ) {
+      continue;
+    }
+
     // For the first contract, we can fill the common fields
     if (!buildInfo.id) {
       const keptSettings: Record<string, unknown> = {
@@ -398,21 +510,6 @@ async function rebuildBuildInfoFromForgeFormat(
       };
     }
 
-    const compilationTargetEntries = Object.entries(
-      contractContentResult.value.metadata.settings.compilationTarget,
-    );
-    if (compilationTargetEntries.length !== 1) {
-      throw new Error(
-        `Invalid compilation target in contract file "${artifactPath}"`,
-      );
-    }
-    const [contractPath, contractName] = compilationTargetEntries[0];
-    if (!expectedPathsSet.has(contractPath)) {
-      throw new Error(
-        `Invalid compilation target in contract file "${contractPath}"`,
-      );
-    }
-
     if (!buildInfo.output.contracts[contractPath]) {
       buildInfo.output.contracts[contractPath] = {};
     }
@@ -445,26 +542,36 @@ async function rebuildBuildInfoFromForgeFormat(
     }
   }
 
+  if (!buildInfo.id) {
+    throw new Error(
+      `No contract file found for the build info file "${buildInfoPath}"`,
+    );
+  }
+
   return JSON.stringify(buildInfo);
 }
 
 function checkCompilationArtifactsFolder(entries: Dirent[]):
   | {
       status: "success";
-      name: string;
+      names: string[];
     }
   | { status: "error"; reason: string } {
-  if (entries.length > 1) {
+  // The entries are sorted in order to bundle the build infos in a stable order
+  const names = entries
+    .filter((entry) => entry.isFile() && entry.name.endsWith(".json"))
+    .map((entry) => entry.name)
+    .sort();
+  if (names.length === 0) {
     return {
       status: "error",
-      reason: `Found multiple potential compilation artifacts in the identified build info folder. Please provide a more precise path.`,
-    };
-  } else {
-    return {
-      status: "success",
-      name: entries[0].name,
+      reason: `No compilation artifacts found in the identified build info folder. Please provide a more precise path.`,
     };
   }
+  return {
+    status: "success",
+    names,
+  };
 }
 
 async function* lookForContractArtifactPath(
@@ -0,0 +1,48 @@
+import { Readable } from "stream";
+import zlib from "zlib";
+import { describe, expect, test } from "vitest";
+import {
+  compressArtifact,
+  decompressArtifactStream,
+  isCompressionAlgorithm,
+} from "../src/artifact-compression";
+
+async function readStream(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+const content = JSON.stringify({ id: "a", output: { contracts: {} } });
+
+describe("artifact compression", () => {
+  test.each(["none", "gzip", "brotli"] as const)(
+    "a %s compressed artifact is decompressed using its recorded algorithm",
+    async (algorithm) => {
+      const compressedContent = await compressArtifact(content, algorithm);
+
+      const stream = decompressArtifactStream(
+        Readable.from([Buffer.from(compressedContent)]),
+        algorithm,
+      );
+
+      expect(await readStream(stream)).toBe(content);
+    },
+  );
+
+  test("a compressed artifact is stored in the standard format", async () => {
+    const gzipContent = await compressArtifact(content, "gzip");
+    const brotliContent = await compressArtifact(content, "brotli");
+
+    expect(zlib.gunzipSync(gzipContent).toString()).toBe(content);
+    expect(zlib.brotliDecompressSync(brotliContent).toString()).toBe(content);
+  });
+
+  test("an unknown recorded algorithm is not a compression algorithm", () => {
+    expect(isCompressionAlgorithm("gzip")).toBe(true);
+    expect(isCompressionAlgorithm("zstd")).toBe(false);
+    expect(isCompressionAlgorithm(undefined)).toBe(false);
+  });
+});
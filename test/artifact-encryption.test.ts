@@ -0,0 +1,45 @@
+import crypto from "crypto";
+import { Readable } from "stream";
+import { describe, expect, test } from "vitest";
+import {
+  decryptArtifactStream,
+  encryptArtifact,
+} from "../src/artifact-encryption";
+import { ScriptError, streamToString } from "../src/utils";
+
+const content = JSON.stringify({ id: "a", output: { contracts: {} } });
+
+function toByteChunks(buffer: Buffer): Readable {
+  return Readable.from(Array.from(buffer, (byte) => Buffer.from([byte])));
+}
+
+describe("artifact encryption", () => {
+  test("an encrypted artifact read in small chunks is decrypted", async () => {
+    const key = crypto.randomBytes(32);
+    const encryptedContent = encryptArtifact(content, key);
+
+    const stream = await decryptArtifactStream(
+      toByteChunks(encryptedContent),
+      async () => key,
+    );
+
+    expect(await streamToString(stream)).toBe(content);
+  });
+
+  test("an encrypted artifact read in small chunks is refused without a key", async () => {
+    const encryptedContent = encryptArtifact(content, crypto.randomBytes(32));
+
+    await expect(
+      decryptArtifactStream(toByteChunks(encryptedContent), undefined),
+    ).rejects.toThrow(ScriptError);
+  });
+
+  test("a plain artifact is returned untouched", async () => {
+    const stream = await decryptArtifactStream(
+      toByteChunks(Buffer.from(content)),
+      undefined,
+    );
+
+    expect(await streamToString(stream)).toBe(content);
+  });
+});
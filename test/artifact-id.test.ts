@@ -0,0 +1,41 @@
+import { describe, expect, test } from "vitest";
+import {
+  deriveArtifactId,
+  matchesArtifactId,
+  resolveArtifactId,
+} from "../src/artifact-id";
+import { createBuildInfo } from "./fixtures";
+
+describe("artifact ID", () => {
+  const buildInfo = createBuildInfo("a", { "src/Foo.sol:Foo": {} });
+  const content = JSON.stringify(buildInfo);
+
+  test("the ID does not depend on the formatting nor on the build info ID", () => {
+    const reformatted = JSON.stringify({ ...buildInfo, id: "b" }, null, 2);
+
+    expect(deriveArtifactId(reformatted)).toBe(deriveArtifactId(content));
+    expect(deriveArtifactId(reformatted, "v0")).not.toBe(
+      deriveArtifactId(content, "v0"),
+    );
+  });
+
+  test("the ID depends on the compilation output", () => {
+    const otherContent = JSON.stringify(
+      createBuildInfo("a", { "src/Foo.sol:Foo": { bytecode: "6080" } }),
+    );
+
+    expect(deriveArtifactId(otherContent)).not.toBe(deriveArtifactId(content));
+  });
+
+  test("an ID derived with a previous version is still matched", async () => {
+    const legacyId = deriveArtifactId(content, "v0");
+
+    expect(matchesArtifactId(content, legacyId)).toBe(true);
+    expect(
+      await resolveArtifactId(content, async (id) => id === legacyId),
+    ).toBe(legacyId);
+    expect(await resolveArtifactId(content, async () => false)).toBe(
+      deriveArtifactId(content),
+    );
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, test } from "vitest";
+import { splitMetadataSuffix, stripMetadata } from "../src/bytecode";
+import { metadataSuffix } from "./fixtures";
+
+describe("bytecode metadata suffix", () => {
+  test("the CBOR metadata suffix is split from the executable code", () => {
+    const suffix = metadataSuffix("12");
+
+    expect(splitMetadataSuffix(`0x6080604052${suffix}`)).toEqual({
+      code: "0x6080604052",
+      metadata: suffix,
+    });
+    expect(stripMetadata(`6080604052${suffix}`)).toBe("6080604052");
+  });
+
+  test("a bytecode without metadata suffix is left untouched", () => {
+    expect(splitMetadataSuffix("0x6080604052")).toEqual({
+      code: "0x6080604052",
+      metadata: "",
+    });
+    expect(stripMetadata("")).toBe("");
+  });
+
+  test("two bytecodes differing by their metadata only are equal once stripped", () => {
+    expect(stripMetadata(`6080${metadataSuffix("aa")}`)).toBe(
+      stripMetadata(`6080${metadataSuffix("bb")}`),
+    );
+  });
+
+  test("the metadata embedded in the bytecode of a factory is stripped", () => {
+    const factory = (childSeed: string, childCode = "6001") =>
+      `6080${childCode}${metadataSuffix(childSeed)}6002${metadataSuffix("ff")}`;
+
+    expect(stripMetadata(factory("aa"))).toBe("608060016002");
+    expect(stripMetadata(factory("aa"))).toBe(stripMetadata(factory("bb")));
+    expect(stripMetadata(factory("aa"))).not.toBe(
+      stripMetadata(factory("aa", "6003")),
+    );
+  });
+
+  test("a library placeholder is not mistaken for metadata", () => {
+    const placeholder = `73__$${"0".repeat(34)}$__`;
+
+    expect(stripMetadata(`${placeholder}a2${metadataSuffix("aa")}`)).toBe(
+      `${placeholder}a2`,
+    );
+  });
+});
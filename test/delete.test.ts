@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, test } from "vitest";
+import { pushArtifact } from "../src/scripts/push";
+import { pull } from "../src/scripts/pull";
+import { deleteArtifact, untagArtifact } from "../src/scripts/delete";
+import { ScriptError } from "../src/utils";
+import { createBuildInfo, PROJECT, Workspace } from "./fixtures";
+
+const workspace = new Workspace();
+afterEach(() => workspace.cleanup());
+
+const opts = { force: false, dryRun: false, debug: false };
+
+async function pushAndPull() {
+  const providers = await workspace.createProviders();
+  const id = await pushArtifact(
+    await workspace.writeArtifacts([
+      createBuildInfo("a", { "src/Foo.sol:Foo": {} }),
+    ]),
+    PROJECT,
+    "v1",
+    opts,
+    providers.storageProvider,
+  );
+  await pull(
+    PROJECT,
+    undefined,
+    opts,
+    providers.localProvider,
+    providers.storageProvider,
+  );
+  return { ...providers, id };
+}
+
+describe("untag and delete", () => {
+  test("a tag is removed from the storage and locally, its ID is kept", async () => {
+    const { storageProvider, localProvider, id } = await pushAndPull();
+
+    await untagArtifact(PROJECT, "v1", opts, localProvider, storageProvider);
+
+    expect(await storageProvider.hasArtifactByTag(PROJECT, "v1")).toBe(false);
+    expect(await localProvider.hasTag(PROJECT, "v1")).toBe(false);
+    expect(await storageProvider.hasArtifactById(PROJECT, id)).toBe(true);
+  });
+
+  test("an ID referenced by a tag is deleted only if forced", async () => {
+    const { storageProvider, localProvider, id } = await pushAndPull();
+
+    await expect(
+      deleteArtifact(PROJECT, id, opts, localProvider, storageProvider),
+    ).rejects.toThrow(ScriptError);
+    await deleteArtifact(
+      PROJECT,
+      id,
+      { ...opts, force: true },
+      localProvider,
+      storageProvider,
+    );
+
+    expect(await storageProvider.hasArtifactById(PROJECT, id)).toBe(false);
+    expect(await localProvider.hasId(PROJECT, id)).toBe(false);
+    expect(await storageProvider.hasArtifactByTag(PROJECT, "v1")).toBe(true);
+  });
+
+  test("nothing is deleted in dry run mode", async () => {
+    const { storageProvider, localProvider } = await pushAndPull();
+
+    const result = await untagArtifact(
+      PROJECT,
+      "v1",
+      { ...opts, dryRun: true },
+      localProvider,
+      storageProvider,
+    );
+
+    expect(result.remoteKeys).not.toHaveLength(0);
+    expect(await storageProvider.hasArtifactByTag(PROJECT, "v1")).toBe(true);
+    expect(await localProvider.hasTag(PROJECT, "v1")).toBe(true);
+  });
+});
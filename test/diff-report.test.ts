@@ -0,0 +1,36 @@
+import { describe, expect, test } from "vitest";
+import { createDiffReport, formatDiffReport } from "../src/scripts/diff-report";
+
+describe("diff report", () => {
+  const report = createDiffReport(
+    { type: "compilation", artifactPath: "./artifacts" },
+    { project: "test-project", tagOrId: "v1" },
+    [
+      { path: "src/Foo.sol", name: "Foo", status: "added" },
+      {
+        path: "src/Bar|Baz.sol",
+        name: "Bar",
+        status: "changed",
+        changes: {
+          abi: [{ kind: "removed", signature: "function bar()" }],
+          bytecode: true,
+          metadata: false,
+        },
+      },
+    ],
+  );
+
+  test("the differences are summarized", () => {
+    expect(report.summary).toMatchObject({ added: 1, removed: 0, changed: 1 });
+    expect(JSON.parse(formatDiffReport(report, "json"))).toEqual(report);
+  });
+
+  test("the Markdown report lists each contract and its changes", () => {
+    const markdown = formatDiffReport(report, "markdown");
+
+    expect(markdown).toContain("| Foo | `src/Foo.sol` | added |");
+    expect(markdown).toContain("| Bar | `src/Bar\\|Baz.sol` | changed |");
+    expect(markdown).toContain("- Removed `function bar()`");
+    expect(markdown).toContain("- Bytecode differs");
+  });
+});
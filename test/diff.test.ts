@@ -0,0 +1,219 @@
+import { afterEach, describe, expect, test } from "vitest";
+import { pushArtifact } from "../src/scripts/push";
+import { pull } from "../src/scripts/pull";
+import {
+  generateDiffBetweenArtifacts,
+  generateDiffWithTargetRelease,
+} from "../src/scripts/diff";
+import {
+  createBuildInfo,
+  metadataSuffix,
+  PROJECT,
+  Workspace,
+} from "./fixtures";
+
+const workspace = new Workspace();
+afterEach(() => workspace.cleanup());
+
+function fn(
+  name: string,
+  inputs: { name: string; type: string }[],
+  overrides: Record<string, unknown> = {},
+) {
+  return {
+    type: "function",
+    name,
+    inputs,
+    outputs: [],
+    stateMutability: "nonpayable",
+    ...overrides,
+  };
+}
+
+const opts = { force: false, debug: false };
+
+async function diff(
+  before: ReturnType<typeof createBuildInfo>,
+  after: ReturnType<typeof createBuildInfo>,
+  diffOpts: { ignoreMetadata?: boolean } = {},
+) {
+  const { storageProvider, localProvider } = await workspace.createProviders();
+  await pushArtifact(
+    await workspace.writeArtifacts([before]),
+    PROJECT,
+    "before",
+    opts,
+    storageProvider,
+  );
+  await pull(PROJECT, "before", opts, localProvider, storageProvider);
+  return generateDiffWithTargetRelease(
+    await workspace.writeArtifacts([after]),
+    { project: PROJECT, tagOrId: "before" },
+    { debug: false, ...diffOpts },
+    localProvider,
+  );
+}
+
+describe("diff", () => {
+  test("added and removed contracts are reported", async () => {
+    const differences = await diff(
+      createBuildInfo("a", { "src/Foo.sol:Foo": {} }),
+      createBuildInfo("b", { "src/Bar.sol:Bar": {} }),
+    );
+
+    expect(differences).toEqual(
+      expect.arrayContaining([
+        { path: "src/Bar.sol", name: "Bar", status: "added" },
+        { path: "src/Foo.sol", name: "Foo", status: "removed" },
+      ]),
+    );
+    expect(differences).toHaveLength(2);
+  });
+
+  test("the changes of the ABI items are classified", async () => {
+    const address = { name: "account", type: "address" };
+    const amount = { name: "amount", type: "uint256" };
+    const differences = await diff(
+      createBuildInfo("a", {
+        "src/Foo.sol:Foo": {
+          abi: [
+            fn("removed", []),
+            fn("resized", [amount]),
+            fn("balance", [address], { stateMutability: "view" }),
+            fn("total", [], { outputs: [{ name: "", type: "uint256" }] }),
+            fn("renamed", [address]),
+          ],
+        },
+      }),
+      createBuildInfo("b", {
+        "src/Foo.sol:Foo": {
+          abi: [
+            fn("added", []),
+            fn("resized", [amount, address]),
+            fn("balance", [address], { stateMutability: "nonpayable" }),
+            fn("total", [], { outputs: [{ name: "", type: "uint128" }] }),
+            fn("renamed", [{ name: "owner", type: "address" }]),
+          ],
+        },
+      }),
+    );
+
+    expect(differences).toHaveLength(1);
+    expect(differences[0].status).toBe("changed");
+    expect(differences[0].changes?.abi).toEqual(
+      expect.arrayContaining([
+        { kind: "added", signature: "function added()" },
+        { kind: "removed", signature: "function removed()" },
+        {
+          kind: "signature",
+          signature: "function resized(uint256,address)",
+          before: "function resized(uint256)",
+          after: "function resized(uint256,address)",
+        },
+        expect.objectContaining({
+          kind: "mutability",
+          before: "view",
+          after: "nonpayable",
+        }),
+        expect.objectContaining({
+          kind: "outputs",
+          before: "(uint256)",
+          after: "(uint128)",
+        }),
+        expect.objectContaining({
+          kind: "definition",
+          signature: "function renamed(address)",
+        }),
+      ]),
+    );
+    expect(differences[0].changes?.abi).toHaveLength(6);
+    expect(differences[0].changes?.bytecode).toBe(false);
+  });
+
+  test("a change of the metadata only is reported as such when the metadata is ignored", async () => {
+    const before = createBuildInfo("a", {
+      "src/Foo.sol:Foo": {
+        bytecode: `6080${metadataSuffix("aa")}`,
+        metadata: "{}",
+      },
+    });
+    const after = createBuildInfo("b", {
+      "src/Foo.sol:Foo": {
+        bytecode: `6080${metadataSuffix("cc")}`,
+        metadata: '{"changed":true}',
+      },
+    });
+
+    expect(await diff(before, after)).toEqual([
+      expect.objectContaining({ status: "changed" }),
+    ]);
+    expect(await diff(before, after, { ignoreMetadata: true })).toEqual([
+      expect.objectContaining({ status: "metadata-only" }),
+    ]);
+  });
+
+  test("two pulled artifacts are compared", async () => {
+    const { storageProvider, localProvider } =
+      await workspace.createProviders();
+    for (const [tag, buildInfo] of [
+      ["before", createBuildInfo("a", { "src/Foo.sol:Foo": {} })],
+      ["after", createBuildInfo("b", { "src/Bar.sol:Bar": {} })],
+    ] as const) {
+      await pushArtifact(
+        await workspace.writeArtifacts([buildInfo]),
+        PROJECT,
+        tag,
+        opts,
+        storageProvider,
+      );
+    }
+    await pull(PROJECT, undefined, opts, localProvider, storageProvider);
+
+    const differences = await generateDiffBetweenArtifacts(
+      { project: PROJECT, tagOrId: "after" },
+      { project: PROJECT, tagOrId: "before" },
+      { debug: false },
+      localProvider,
+    );
+
+    expect(differences).toEqual(
+      expect.arrayContaining([
+        { path: "src/Bar.sol", name: "Bar", status: "added" },
+        { path: "src/Foo.sol", name: "Foo", status: "removed" },
+      ]),
+    );
+    expect(differences).toHaveLength(2);
+  });
+
+  test.each([false, true])(
+    "the missing artifacts are pulled, temporary pull: %s",
+    async (temporaryPull) => {
+      const { storageProvider, localProvider } =
+        await workspace.createProviders();
+      await pushArtifact(
+        await workspace.writeArtifacts([
+          createBuildInfo("a", { "src/Foo.sol:Foo": {} }),
+        ]),
+        PROJECT,
+        "before",
+        opts,
+        storageProvider,
+      );
+
+      const differences = await generateDiffWithTargetRelease(
+        await workspace.writeArtifacts([
+          createBuildInfo("b", { "src/Bar.sol:Bar": {} }),
+        ]),
+        { project: PROJECT, tagOrId: "before" },
+        { debug: false, temporaryPull },
+        localProvider,
+        storageProvider,
+      );
+
+      expect(differences).toHaveLength(2);
+      expect(await localProvider.hasTag(PROJECT, "before")).toBe(
+        !temporaryPull,
+      );
+    },
+  );
+});
@@ -0,0 +1,72 @@
+import fs from "fs/promises";
+import path from "path";
+import { afterEach, describe, expect, test } from "vitest";
+import { pushArtifact } from "../src/scripts/push";
+import { pull } from "../src/scripts/pull";
+import { exportArtifacts } from "../src/scripts/export-artifacts";
+import { createBuildInfo, PROJECT, Workspace } from "./fixtures";
+
+const workspace = new Workspace();
+afterEach(() => workspace.cleanup());
+
+const opts = { force: false, debug: false };
+
+async function exportPulledArtifact(format: "hardhat" | "foundry") {
+  const { storageProvider, localProvider } = await workspace.createProviders();
+  await pushArtifact(
+    await workspace.writeArtifacts([
+      createBuildInfo("a", { "src/Foo.sol:Foo": {} }),
+    ]),
+    PROJECT,
+    "v1",
+    opts,
+    storageProvider,
+  );
+  await pull(PROJECT, "v1", opts, localProvider, storageProvider);
+  const outputPath = await workspace.createDirectory();
+  const result = await exportArtifacts(
+    { project: PROJECT, tagOrId: "v1" },
+    format,
+    outputPath,
+    {},
+    localProvider,
+  );
+  return { outputPath, result };
+}
+
+async function readJson(filePath: string) {
+  return JSON.parse(await fs.readFile(filePath, "utf-8"));
+}
+
+describe("export artifacts", () => {
+  test("the contracts are exported with the Hardhat format", async () => {
+    const { outputPath, result } = await exportPulledArtifact("hardhat");
+
+    expect(result).toEqual({ contracts: 1, buildInfos: 1 });
+    expect(
+      await readJson(path.join(outputPath, "src", "Foo.sol", "Foo.json")),
+    ).toEqual(
+      expect.objectContaining({
+        _format: "hh-sol-artifact-1",
+        contractName: "Foo",
+        sourceName: "src/Foo.sol",
+      }),
+    );
+    const debugFile = await readJson(
+      path.join(outputPath, "src", "Foo.sol", "Foo.dbg.json"),
+    );
+    expect(
+      await readJson(
+        path.join(outputPath, "src", "Foo.sol", debugFile.buildInfo),
+      ),
+    ).toEqual(expect.objectContaining({ id: "a" }));
+  });
+
+  test("the contracts are exported with the Foundry format", async () => {
+    const { outputPath } = await exportPulledArtifact("foundry");
+
+    expect(
+      await readJson(path.join(outputPath, "Foo.sol", "Foo.json")),
+    ).toEqual(expect.objectContaining({ abi: [] }));
+  });
+});
@@ -0,0 +1,62 @@
+import fs from "fs/promises";
+import path from "path";
+import { afterEach, describe, expect, test } from "vitest";
+import { pushArtifact } from "../src/scripts/push";
+import { pull } from "../src/scripts/pull";
+import { exportVerificationInput } from "../src/scripts/export-verification";
+import { createBuildInfo, PROJECT, Workspace } from "./fixtures";
+
+const workspace = new Workspace();
+afterEach(() => workspace.cleanup());
+
+const opts = { force: false, debug: false };
+
+describe("export verification", () => {
+  test("the compilation input is exported as given to the compiler", async () => {
+    const { storageProvider, localProvider } =
+      await workspace.createProviders();
+    const buildInfo = createBuildInfo("a", {
+      "src/Foo.sol:Foo": {
+        metadata: JSON.stringify({ sources: { "src/Foo.sol": {} } }),
+      },
+    });
+    const input = {
+      ...buildInfo.input,
+      sources: {
+        "src/Foo.sol": { content: "contract Foo {}", keccak256: "0x01" },
+      },
+      settings: {
+        ...buildInfo.input.settings,
+        debug: { revertStrings: "strip" },
+      },
+    };
+    const artifactPath = await workspace.writeArtifacts([
+      { ...buildInfo, input },
+    ]);
+    await pushArtifact(artifactPath, PROJECT, "v1", opts, storageProvider);
+    await pull(PROJECT, "v1", opts, localProvider, storageProvider);
+    const outputPath = await workspace.createDirectory();
+
+    await exportVerificationInput(
+      { project: PROJECT, tagOrId: "v1" },
+      "src/Foo.sol:Foo",
+      outputPath,
+      {},
+      localProvider,
+    );
+
+    const exportedInput = JSON.parse(
+      await fs.readFile(
+        path.join(outputPath, "standard-json-input.json"),
+        "utf-8",
+      ),
+    );
+    expect(exportedInput).toEqual(input);
+    expect(
+      await fs.readFile(
+        path.join(outputPath, "sourcify", "sources", "src", "Foo.sol"),
+        "utf-8",
+      ),
+    ).toBe("contract Foo {}");
+  });
+});
@@ -0,0 +1,137 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { LocalDirectoryProvider } from "../src/local-directory-provider";
+import { LocalStorageProvider } from "../src/scripts/local-storage-provider";
+import { CompressionAlgorithm } from "../src/artifact-compression";
+import { EncryptionConfiguration } from "../src/artifact-encryption";
+
+export const PROJECT = "test-project";
+
+// CBOR encoded metadata suffix, `{"ipfs": <34 bytes>, "solc": <3 bytes>}` followed by its length
+export function metadataSuffix(seed: string): string {
+  const hash = seed.padEnd(68, "0").slice(0, 68);
+  return `a264697066735822${hash}64736f6c63430008140033`;
+}
+
+type ContractFixture = {
+  abi?: unknown[];
+  bytecode?: string;
+  deployedBytecode?: string;
+  metadata?: string;
+  storageLayout?: unknown;
+};
+
+/**
+ * Create a Hardhat style build info with the given contracts, keyed by `<path>:<name>`
+ */
+export function createBuildInfo(
+  id: string,
+  contracts: Record<string, ContractFixture>,
+) {
+  const sources: Record<string, { content: string }> = {};
+  const outputContracts: Record<string, Record<string, unknown>> = {};
+  for (const [key, contract] of Object.entries(contracts)) {
+    const [sourcePath, name] = key.split(":");
+    sources[sourcePath] = { content: `contract ${name} {}` };
+    outputContracts[sourcePath] = {
+      ...outputContracts[sourcePath],
+      [name]: {
+        abi: contract.abi ?? [],
+        metadata: contract.metadata ?? JSON.stringify({ sources: {} }),
+        evm: {
+          bytecode: {
+            object: contract.bytecode ?? `6080${metadataSuffix("aa")}`,
+            linkReferences: {},
+          },
+          deployedBytecode: {
+            object: contract.deployedBytecode ?? `6080${metadataSuffix("bb")}`,
+            linkReferences: {},
+          },
+        },
+        storageLayout: contract.storageLayout,
+      },
+    };
+  }
+  return {
+    id,
+    _format: "hh-sol-build-info-1",
+    solcVersion: "0.8.20",
+    solcLongVersion: "0.8.20+commit.a1b79de6",
+    input: {
+      language: "Solidity",
+      sources,
+      settings: {
+        optimizer: { enabled: true, runs: 200 },
+        outputSelection: { "*": { "*": ["*"] } },
+      },
+    },
+    output: {
+      contracts: outputContracts,
+      sources: Object.fromEntries(
+        Object.keys(sources).map((sourcePath, i) => [
+          sourcePath,
+          { id: i, ast: {} },
+        ]),
+      ),
+    },
+  };
+}
+
+/**
+ * Temporary directories removed by `cleanup`
+ */
+export class Workspace {
+  private readonly directories: string[] = [];
+
+  public async createDirectory(): Promise<string> {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), "soko-test-"));
+    this.directories.push(directory);
+    return directory;
+  }
+
+  /**
+   * Write build infos in the `build-info` folder of a new artifacts directory
+   * @returns The path of the artifacts directory
+   */
+  public async writeArtifacts(
+    buildInfos: ReturnType<typeof createBuildInfo>[],
+  ): Promise<string> {
+    const directory = await this.createDirectory();
+    await fs.mkdir(path.join(directory, "build-info"));
+    for (const buildInfo of buildInfos) {
+      await fs.writeFile(
+        path.join(directory, "build-info", `${buildInfo.id}.json`),
+        JSON.stringify(buildInfo),
+      );
+    }
+    return directory;
+  }
+
+  public async createProviders(
+    config: {
+      compression?: CompressionAlgorithm;
+      encryption?: EncryptionConfiguration;
+    } = {},
+  ) {
+    const storagePath = await this.createDirectory();
+    const localProvider = new LocalStorageProvider(
+      await this.createDirectory(),
+    );
+    await localProvider.ensureProjectSetup(PROJECT);
+    return {
+      storagePath,
+      storageProvider: new LocalDirectoryProvider({
+        path: storagePath,
+        ...config,
+      }),
+      localProvider,
+    };
+  }
+
+  public async cleanup(): Promise<void> {
+    for (const directory of this.directories.splice(0)) {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import fs from "fs/promises";
+import path from "path";
+import { afterEach, describe, expect, test } from "vitest";
+import { retrieveFreshCompilationArtifact, ZBuildInfo } from "../src/utils";
+import { extractBuildInfos } from "../src/artifact-bundle";
+import { Workspace } from "./fixtures";
+
+const workspace = new Workspace();
+afterEach(() => workspace.cleanup());
+
+function forgeContract(sourcePath: string, name: string, sourceId: number) {
+  const metadata = {
+    compiler: { version: "0.8.20+commit.a1b79de6" },
+    language: "Solidity",
+    output: { abi: [] },
+    settings: {
+      optimizer: { enabled: true, runs: 200 },
+      compilationTarget: { [sourcePath]: name },
+    },
+    sources: { [sourcePath]: { keccak256: "0x00" } },
+    version: 1,
+  };
+  return {
+    abi: [],
+    bytecode: { object: "0x6080" },
+    deployedBytecode: { object: "0x6080" },
+    methodIdentifiers: {},
+    rawMetadata: JSON.stringify(metadata),
+    metadata,
+    id: sourceId,
+  };
+}
+
+async function writeForgeOutput(
+  compilations: {
+    id: string;
+    contracts: { sourcePath: string; name: string }[];
+  }[],
+): Promise<string> {
+  const outPath = await workspace.createDirectory();
+  await fs.mkdir(path.join(outPath, "build-info"));
+  for (const compilation of compilations) {
+    await fs.writeFile(
+      path.join(outPath, "build-info", `${compilation.id}.json`),
+      JSON.stringify({
+        id: compilation.id,
+        language: "Solidity",
+        source_id_to_path: Object.fromEntries(
+          compilation.contracts.map(({ sourcePath }, i) => [i, sourcePath]),
+        ),
+      }),
+    );
+    for (const [i, { sourcePath, name }] of compilation.contracts.entries()) {
+      const contractDirectory = path.join(outPath, path.basename(sourcePath));
+      await fs.mkdir(contractDirectory, { recursive: true });
+      await fs.writeFile(
+        path.join(contractDirectory, `${name}.json`),
+        JSON.stringify(forgeContract(sourcePath, name, i)),
+      );
+    }
+  }
+  return outPath;
+}
+
+describe("forge compilation artifacts", () => {
+  test("the contracts of each build info file are bundled with their own build info", async () => {
+    const outPath = await writeForgeOutput([
+      { id: "first", contracts: [{ sourcePath: "src/Foo.sol", name: "Foo" }] },
+      {
+        id: "second",
+        contracts: [{ sourcePath: "script/Deploy.sol", name: "Deploy" }],
+      },
+    ]);
+
+    const result = await retrieveFreshCompilationArtifact(outPath);
+
+    if (result.status !== "success") {
+      throw new Error(result.reason);
+    }
+    const buildInfos = extractBuildInfos(JSON.parse(result.content)).map(
+      (rawBuildInfo) => ZBuildInfo.parse(rawBuildInfo),
+    );
+    expect(
+      buildInfos.map((buildInfo) => [
+        buildInfo.id,
+        Object.keys(buildInfo.output.contracts),
+      ]),
+    ).toEqual([
+      ["first", ["src/Foo.sol"]],
+      ["second", ["script/Deploy.sol"]],
+    ]);
+  });
+});
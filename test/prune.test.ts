@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, test } from "vitest";
+import { pushArtifact } from "../src/scripts/push";
+import { pull } from "../src/scripts/pull";
+import { parseDuration, prune } from "../src/scripts/prune";
+import { createBuildInfo, PROJECT, Workspace } from "./fixtures";
+
+const workspace = new Workspace();
+afterEach(() => workspace.cleanup());
+
+const opts = { force: false, dryRun: false, debug: false };
+
+describe("prune", () => {
+  test("durations are parsed", () => {
+    expect(parseDuration("45m")).toBe(45 * 60 * 1000);
+    expect(parseDuration("2w")).toBe(14 * 24 * 60 * 60 * 1000);
+    expect(parseDuration("30")).toBeUndefined();
+  });
+
+  test("the artifacts missing from the storage are pruned", async () => {
+    const { storageProvider, localProvider } =
+      await workspace.createProviders();
+    for (const tag of ["v1", "v2"]) {
+      await pushArtifact(
+        await workspace.writeArtifacts([
+          createBuildInfo(tag, { [`src/${tag}.sol:Foo`]: {} }),
+        ]),
+        PROJECT,
+        tag,
+        opts,
+        storageProvider,
+      );
+    }
+    await pull(PROJECT, undefined, opts, localProvider, storageProvider);
+    await storageProvider.deleteTag(PROJECT, "v1", { dryRun: false });
+
+    const dryRunResult = await prune(
+      { remoteMissing: true },
+      { dryRun: true, debug: false },
+      localProvider,
+      storageProvider,
+    );
+    expect(dryRunResult.prunedArtifacts).toHaveLength(1);
+    expect(await localProvider.hasTag(PROJECT, "v1")).toBe(true);
+
+    const result = await prune(
+      { remoteMissing: true },
+      { dryRun: false, debug: false },
+      localProvider,
+      storageProvider,
+    );
+    expect(result.prunedArtifacts).toEqual([
+      expect.objectContaining({ type: "tag", value: "v1" }),
+    ]);
+    expect(result.reclaimedBytes).toBeGreaterThan(0);
+    expect(await localProvider.hasTag(PROJECT, "v1")).toBe(false);
+    expect(await localProvider.hasTag(PROJECT, "v2")).toBe(true);
+  });
+});
@@ -0,0 +1,333 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import zlib from "zlib";
+import { afterEach, describe, expect, test } from "vitest";
+import { LocalDirectoryProvider } from "../src/local-directory-provider";
+import { pushArtifact } from "../src/scripts/push";
+import { pull } from "../src/scripts/pull";
+import { TagConflictError } from "../src/storage-provider";
+import { ScriptError } from "../src/utils";
+import { createBuildInfo, PROJECT, Workspace } from "./fixtures";
+
+const workspace = new Workspace();
+afterEach(() => workspace.cleanup());
+
+const opts = { force: false, debug: false };
+
+describe("push and pull", () => {
+  test("a pushed artifact is pulled by tag and by ID", async () => {
+    const { storageProvider, localProvider } =
+      await workspace.createProviders();
+    const buildInfo = createBuildInfo("a", { "src/Foo.sol:Foo": {} });
+    const artifactPath = await workspace.writeArtifacts([buildInfo]);
+
+    const id = await pushArtifact(
+      artifactPath,
+      PROJECT,
+      "v1",
+      opts,
+      storageProvider,
+    );
+    const result = await pull(
+      PROJECT,
+      undefined,
+      opts,
+      localProvider,
+      storageProvider,
+    );
+
+    expect(result.pulledTags).toEqual(["v1"]);
+    expect(result.pulledIds).toEqual([id]);
+    expect(result.failedTags).toEqual([]);
+    const [pulledBuildInfo] = await localProvider.retrieveBuildInfosByTag(
+      PROJECT,
+      "v1",
+    );
+    expect(pulledBuildInfo.output.contracts["src/Foo.sol"].Foo).toBeDefined();
+    expect(await localProvider.retrieveArtifactMetadata(PROJECT, id)).toEqual(
+      expect.objectContaining({ id, contracts: ["src/Foo.sol:Foo"] }),
+    );
+  });
+
+  test("a pulled artifact is resolved by tag or by ID", async () => {
+    const { storageProvider, localProvider } =
+      await workspace.createProviders();
+    const artifactPath = await workspace.writeArtifacts([
+      createBuildInfo("a", { "src/Foo.sol:Foo": {} }),
+    ]);
+    const id = await pushArtifact(
+      artifactPath,
+      PROJECT,
+      "v1",
+      opts,
+      storageProvider,
+    );
+    await pull(PROJECT, undefined, opts, localProvider, storageProvider);
+
+    expect(await localProvider.resolveLocalArtifact(PROJECT, "v1")).toEqual({
+      type: "tag",
+      value: "v1",
+    });
+    expect(await localProvider.resolveLocalArtifact(PROJECT, id)).toEqual({
+      type: "id",
+      value: id,
+    });
+    expect(
+      await localProvider.resolveLocalArtifact(PROJECT, "v2"),
+    ).toBeUndefined();
+  });
+
+  test("pushing an existing tag fails unless forced", async () => {
+    const { storageProvider, localProvider } =
+      await workspace.createProviders();
+    const firstPath = await workspace.writeArtifacts([
+      createBuildInfo("a", { "src/Foo.sol:Foo": {} }),
+    ]);
+    const secondPath = await workspace.writeArtifacts([
+      createBuildInfo("b", { "src/Bar.sol:Bar": {} }),
+    ]);
+    await pushArtifact(firstPath, PROJECT, "v1", opts, storageProvider);
+
+    await expect(
+      pushArtifact(secondPath, PROJECT, "v1", opts, storageProvider),
+    ).rejects.toThrow(ScriptError);
+    await expect(
+      storageProvider.uploadArtifact(PROJECT, "other", "v1", "{}", {
+        force: false,
+      }),
+    ).rejects.toThrow(TagConflictError);
+
+    await pushArtifact(
+      secondPath,
+      PROJECT,
+      "v1",
+      { ...opts, force: true },
+      storageProvider,
+    );
+    await pull(PROJECT, "v1", opts, localProvider, storageProvider);
+    const [pulledBuildInfo] = await localProvider.retrieveBuildInfosByTag(
+      PROJECT,
+      "v1",
+    );
+    expect(pulledBuildInfo.output.contracts["src/Bar.sol"]).toBeDefined();
+  });
+
+  test("multiple build info files are pushed as a single artifact", async () => {
+    const { storageProvider, localProvider } =
+      await workspace.createProviders();
+    const id = await pushArtifact(
+      await workspace.writeArtifacts([
+        createBuildInfo("a", { "src/Foo.sol:Foo": {} }),
+        createBuildInfo("b", { "src/Bar.sol:Bar": {} }),
+      ]),
+      PROJECT,
+      "v1",
+      opts,
+      storageProvider,
+    );
+
+    await pull(PROJECT, "v1", opts, localProvider, storageProvider);
+
+    const buildInfos = await localProvider.retrieveBuildInfosByTag(
+      PROJECT,
+      "v1",
+    );
+    expect(buildInfos).toHaveLength(2);
+    expect(await localProvider.retrieveArtifactId(PROJECT, "v1")).toBe(id);
+    expect(await localProvider.retrieveArtifactMetadata(PROJECT, id)).toEqual(
+      expect.objectContaining({
+        contracts: ["src/Foo.sol:Foo", "src/Bar.sol:Bar"],
+      }),
+    );
+  });
+
+  test("a tag altered in the storage is discarded", async () => {
+    const { storagePath, storageProvider, localProvider } =
+      await workspace.createProviders();
+    await pushArtifact(
+      await workspace.writeArtifacts([
+        createBuildInfo("a", { "src/Foo.sol:Foo": {} }),
+      ]),
+      PROJECT,
+      "v1",
+      opts,
+      storageProvider,
+    );
+    await fs.writeFile(
+      path.join(storagePath, PROJECT, "tags", "v1.json"),
+      JSON.stringify(createBuildInfo("b", { "src/Bar.sol:Bar": {} })),
+    );
+
+    const result = await pull(
+      PROJECT,
+      "v1",
+      opts,
+      localProvider,
+      storageProvider,
+    );
+
+    expect(result.failedTags).toEqual(["v1"]);
+    expect(await localProvider.hasTag(PROJECT, "v1")).toBe(false);
+  });
+
+  test("an artifact altered in the storage is discarded", async () => {
+    const { storagePath, storageProvider, localProvider } =
+      await workspace.createProviders();
+    const id = await pushArtifact(
+      await workspace.writeArtifacts([
+        createBuildInfo("a", { "src/Foo.sol:Foo": {} }),
+      ]),
+      PROJECT,
+      undefined,
+      opts,
+      storageProvider,
+    );
+    await fs.writeFile(
+      path.join(storagePath, PROJECT, "ids", `${id}.json`),
+      JSON.stringify(createBuildInfo("b", { "src/Bar.sol:Bar": {} })),
+    );
+
+    const result = await pull(
+      PROJECT,
+      id,
+      opts,
+      localProvider,
+      storageProvider,
+    );
+
+    expect(result.failedIds).toEqual([id]);
+    expect(await localProvider.hasId(PROJECT, id)).toBe(false);
+  });
+
+  test("a forced pull of an altered artifact keeps the pulled artifact", async () => {
+    const { storagePath, storageProvider, localProvider } =
+      await workspace.createProviders();
+    const buildInfo = createBuildInfo("a", { "src/Foo.sol:Foo": {} });
+    const id = await pushArtifact(
+      await workspace.writeArtifacts([buildInfo]),
+      PROJECT,
+      undefined,
+      opts,
+      storageProvider,
+    );
+    await pull(PROJECT, id, opts, localProvider, storageProvider);
+    await fs.writeFile(
+      path.join(storagePath, PROJECT, "ids", `${id}.json`),
+      JSON.stringify(createBuildInfo("b", { "src/Bar.sol:Bar": {} })),
+    );
+
+    const result = await pull(
+      PROJECT,
+      id,
+      { ...opts, force: true },
+      localProvider,
+      storageProvider,
+    );
+
+    expect(result.failedIds).toEqual([id]);
+    expect(
+      JSON.parse(
+        await localProvider.retrieveArtifactContent(PROJECT, {
+          type: "id",
+          value: id,
+        }),
+      ),
+    ).toEqual(buildInfo);
+    expect(
+      await fs.readdir(path.join(localProvider.rootPath, PROJECT, "tmp")),
+    ).toHaveLength(0);
+  });
+
+  test.each(["gzip", "brotli"] as const)(
+    "a %s compressed artifact is pulled uncompressed",
+    async (compression) => {
+      const { storagePath, storageProvider, localProvider } =
+        await workspace.createProviders({ compression });
+      const buildInfo = createBuildInfo("a", { "src/Foo.sol:Foo": {} });
+      const id = await pushArtifact(
+        await workspace.writeArtifacts([buildInfo]),
+        PROJECT,
+        "v1",
+        opts,
+        storageProvider,
+      );
+      const storedContent = await fs.readFile(
+        path.join(
+          storagePath,
+          PROJECT,
+          "ids",
+          `${id}.json${compression === "gzip" ? ".gz" : ".br"}`,
+        ),
+      );
+      const decompressedContent =
+        compression === "gzip"
+          ? zlib.gunzipSync(storedContent)
+          : zlib.brotliDecompressSync(storedContent);
+      expect(JSON.parse(decompressedContent.toString())).toEqual(buildInfo);
+
+      const result = await pull(
+        PROJECT,
+        undefined,
+        opts,
+        localProvider,
+        storageProvider,
+      );
+
+      expect(result.pulledIds).toEqual([id]);
+      const pulledContent = await fs.readFile(
+        path.join(localProvider.rootPath, PROJECT, "ids", `${id}.json`),
+        "utf-8",
+      );
+      expect(JSON.parse(pulledContent)).toEqual(buildInfo);
+    },
+  );
+
+  test("an encrypted artifact is only pulled with the key", async () => {
+    process.env.SOKO_TEST_KEY = crypto.randomBytes(32).toString("hex");
+    const encryption = { keyEnvVar: "SOKO_TEST_KEY" };
+    const { storagePath, storageProvider, localProvider } =
+      await workspace.createProviders({ compression: "gzip", encryption });
+    const buildInfo = createBuildInfo("a", { "src/Foo.sol:Foo": {} });
+    const id = await pushArtifact(
+      await workspace.writeArtifacts([buildInfo]),
+      PROJECT,
+      "v1",
+      opts,
+      storageProvider,
+    );
+    const storedContent = await fs.readFile(
+      path.join(storagePath, PROJECT, "ids", `${id}.json.gz`),
+    );
+    expect(storedContent.includes("src/Foo.sol")).toBe(false);
+
+    const result = await pull(
+      PROJECT,
+      undefined,
+      opts,
+      localProvider,
+      storageProvider,
+    );
+    expect(result.pulledIds).toEqual([id]);
+    expect(
+      JSON.parse(
+        await localProvider.retrieveArtifactContent(PROJECT, {
+          type: "id",
+          value: id,
+        }),
+      ),
+    ).toEqual(buildInfo);
+
+    const { localProvider: otherLocalProvider } =
+      await workspace.createProviders();
+    const resultWithoutKey = await pull(
+      PROJECT,
+      undefined,
+      opts,
+      otherLocalProvider,
+      new LocalDirectoryProvider({ path: storagePath }),
+    );
+    expect(resultWithoutKey.pulledIds).toEqual([]);
+    expect(resultWithoutKey.failedIds).toEqual([id]);
+  });
+});
@@ -0,0 +1,107 @@
+import {
+  CopyObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+  S3ServiceException,
+} from "@aws-sdk/client-s3";
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { S3BucketProvider } from "../src/s3-bucket-provider";
+import { TagConflictError } from "../src/storage-provider";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+function mockBucket(opts: { tagExists: boolean }) {
+  const writes: (PutObjectCommand | CopyObjectCommand)[] = [];
+  vi.spyOn(S3Client.prototype, "send").mockImplementation(
+    async (command: unknown) => {
+      if (command instanceof HeadObjectCommand) {
+        return { Metadata: { "soko-compression": "gzip" } };
+      }
+      if (
+        command instanceof PutObjectCommand ||
+        command instanceof CopyObjectCommand
+      ) {
+        writes.push(command);
+        if (
+          opts.tagExists &&
+          command.input.Key?.includes("/tags/") &&
+          command.input.IfNoneMatch === "*"
+        ) {
+          throw new S3ServiceException({
+            name: "PreconditionFailed",
+            $fault: "client",
+            $metadata: { httpStatusCode: 412 },
+          });
+        }
+        return {};
+      }
+      throw new Error("Unexpected command");
+    },
+  );
+  return writes;
+}
+
+const provider = new S3BucketProvider({
+  bucketName: "bucket",
+  bucketRegion: "eu-west-3",
+  accessKeyId: "key",
+  secretAccessKey: "secret",
+});
+
+describe("S3 bucket provider", () => {
+  test("a tag is written with a conditional copy of the ID", async () => {
+    const writes = mockBucket({ tagExists: false });
+
+    await provider.tagArtifact("project", "abc", "v1", { force: false });
+
+    expect(writes).toHaveLength(1);
+    expect(writes[0]).toBeInstanceOf(CopyObjectCommand);
+    expect(writes[0].input).toEqual(
+      expect.objectContaining({
+        CopySource: "bucket/projects/project/ids/abc.json",
+        Key: "projects/project/tags/v1.json",
+        IfNoneMatch: "*",
+        Metadata: {
+          "soko-compression": "gzip",
+          "soko-artifact-id": "abc",
+        },
+      }),
+    );
+  });
+
+  test("a pushed tag is a conditional copy of the uploaded ID", async () => {
+    const writes = mockBucket({ tagExists: true });
+
+    await expect(
+      provider.uploadArtifact("project", "abc", "v1", "content", {
+        force: false,
+      }),
+    ).rejects.toThrow(TagConflictError);
+
+    expect(writes.map((write) => write.constructor)).toEqual([
+      PutObjectCommand,
+      CopyObjectCommand,
+    ]);
+    expect(writes[1].input).toEqual(
+      expect.objectContaining({
+        CopySource: "bucket/projects/project/ids/abc.json",
+        Key: "projects/project/tags/v1.json",
+        IfNoneMatch: "*",
+      }),
+    );
+  });
+
+  test("an existing tag is a conflict unless forced", async () => {
+    mockBucket({ tagExists: true });
+
+    await expect(
+      provider.tagArtifact("project", "abc", "v1", { force: false }),
+    ).rejects.toThrow(TagConflictError);
+    await expect(
+      provider.tagArtifact("project", "abc", "v1", { force: true }),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,213 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { pushArtifact } from "../src/scripts/push";
+import { pull, SignatureVerificationOptions } from "../src/scripts/pull";
+import { tagArtifact } from "../src/scripts/tag";
+import { ScriptError } from "../src/utils";
+import { createBuildInfo, PROJECT, Workspace } from "./fixtures";
+
+const workspace = new Workspace();
+afterEach(() => {
+  vi.restoreAllMocks();
+  return workspace.cleanup();
+});
+
+const opts = { force: false, debug: false };
+
+let signingKeyPath: string;
+let publicKey: string;
+beforeEach(async () => {
+  const keyPair = crypto.generateKeyPairSync("ed25519");
+  signingKeyPath = path.join(await workspace.createDirectory(), "key.pem");
+  await fs.writeFile(
+    signingKeyPath,
+    keyPair.privateKey.export({ type: "pkcs8", format: "pem" }),
+  );
+  publicKey = keyPair.publicKey
+    .export({ type: "spki", format: "pem" })
+    .toString();
+});
+
+async function pushAndPull(
+  push: { signed: boolean },
+  signatureVerification: SignatureVerificationOptions,
+) {
+  const { storageProvider, localProvider } = await workspace.createProviders();
+  const id = await pushArtifact(
+    await workspace.writeArtifacts([
+      createBuildInfo("a", { "src/Foo.sol:Foo": {} }),
+    ]),
+    PROJECT,
+    "v1",
+    { ...opts, signingKeyPath: push.signed ? signingKeyPath : undefined },
+    storageProvider,
+  );
+  const result = await pull(
+    PROJECT,
+    undefined,
+    { ...opts, signatureVerification },
+    localProvider,
+    storageProvider,
+  );
+  return { id, result, localProvider };
+}
+
+describe("signatures", () => {
+  test("an artifact signed by a trusted key is pulled", async () => {
+    const { id, result } = await pushAndPull(
+      { signed: true },
+      { trustedPublicKeys: [publicKey], onInvalidSignature: "refuse" },
+    );
+
+    expect(result.pulledTags).toEqual(["v1"]);
+    expect(result.pulledIds).toEqual([id]);
+  });
+
+  test("an unsigned artifact is refused", async () => {
+    const { id, result, localProvider } = await pushAndPull(
+      { signed: false },
+      { trustedPublicKeys: [publicKey], onInvalidSignature: "refuse" },
+    );
+
+    expect(result.failedTags).toEqual(["v1"]);
+    expect(result.failedIds).toEqual([id]);
+    expect(await localProvider.hasId(PROJECT, id)).toBe(false);
+  });
+
+  test("an artifact signed by an untrusted key is refused", async () => {
+    const otherPublicKey = crypto
+      .generateKeyPairSync("ed25519")
+      .publicKey.export({ type: "spki", format: "pem" })
+      .toString();
+    const { result } = await pushAndPull(
+      { signed: true },
+      { trustedPublicKeys: [otherPublicKey], onInvalidSignature: "refuse" },
+    );
+
+    expect(result.failedTags).toEqual(["v1"]);
+  });
+
+  test("an unsigned artifact is kept with the warn policy", async () => {
+    const { id, result, localProvider } = await pushAndPull(
+      { signed: false },
+      { trustedPublicKeys: [publicKey], onInvalidSignature: "warn" },
+    );
+
+    expect(result.pulledTags).toEqual(["v1"]);
+    expect(await localProvider.hasId(PROJECT, id)).toBe(true);
+  });
+
+  test.each(["push", "tag"] as const)(
+    "a tag moved by %s without signing key loses its previous signature",
+    async (operation) => {
+      const { storageProvider, localProvider } =
+        await workspace.createProviders();
+      const signedOpts = { ...opts, signingKeyPath };
+      await pushArtifact(
+        await workspace.writeArtifacts([
+          createBuildInfo("a", { "src/Foo.sol:Foo": {} }),
+        ]),
+        PROJECT,
+        "v1",
+        signedOpts,
+        storageProvider,
+      );
+      const otherArtifactPath = await workspace.writeArtifacts([
+        createBuildInfo("b", { "src/Bar.sol:Bar": {} }),
+      ]);
+      if (operation === "push") {
+        await pushArtifact(
+          otherArtifactPath,
+          PROJECT,
+          "v1",
+          { ...opts, force: true },
+          storageProvider,
+        );
+      } else {
+        const otherId = await pushArtifact(
+          otherArtifactPath,
+          PROJECT,
+          undefined,
+          opts,
+          storageProvider,
+        );
+        await tagArtifact(
+          PROJECT,
+          otherId,
+          "v1",
+          { ...opts, force: true },
+          storageProvider,
+        );
+      }
+
+      expect(
+        await storageProvider.downloadArtifactSignature(PROJECT, {
+          type: "tag",
+          value: "v1",
+        }),
+      ).toBeUndefined();
+      const result = await pull(
+        PROJECT,
+        "v1",
+        {
+          ...opts,
+          signatureVerification: {
+            trustedPublicKeys: [publicKey],
+            onInvalidSignature: "warn",
+          },
+        },
+        localProvider,
+        storageProvider,
+      );
+      expect(result.pulledTags).toEqual(["v1"]);
+    },
+  );
+
+  test.each(["push", "tag"] as const)(
+    "a tag created by %s is removed if its signature can not be pushed",
+    async (operation) => {
+      const { storageProvider } = await workspace.createProviders();
+      const uploadArtifactSignature =
+        storageProvider.uploadArtifactSignature.bind(storageProvider);
+      vi.spyOn(storageProvider, "uploadArtifactSignature").mockImplementation(
+        async (project, artifact, signature) => {
+          if (artifact.type === "tag") {
+            throw new Error("Upload failure");
+          }
+          return uploadArtifactSignature(project, artifact, signature);
+        },
+      );
+      const signedOpts = { ...opts, signingKeyPath };
+      const artifactPath = await workspace.writeArtifacts([
+        createBuildInfo("a", { "src/Foo.sol:Foo": {} }),
+      ]);
+
+      if (operation === "push") {
+        await expect(
+          pushArtifact(
+            artifactPath,
+            PROJECT,
+            "v1",
+            signedOpts,
+            storageProvider,
+          ),
+        ).rejects.toThrow(ScriptError);
+      } else {
+        const id = await pushArtifact(
+          artifactPath,
+          PROJECT,
+          undefined,
+          signedOpts,
+          storageProvider,
+        );
+        await expect(
+          tagArtifact(PROJECT, id, "v1", signedOpts, storageProvider),
+        ).rejects.toThrow(ScriptError);
+      }
+
+      expect(await storageProvider.hasArtifactByTag(PROJECT, "v1")).toBe(false);
+    },
+  );
+});
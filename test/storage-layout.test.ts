@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, test } from "vitest";
+import { pushArtifact } from "../src/scripts/push";
+import { checkStorageLayouts } from "../src/scripts/check-storage-layout";
+import { ScriptError } from "../src/utils";
+import { createBuildInfo, PROJECT, Workspace } from "./fixtures";
+
+const workspace = new Workspace();
+afterEach(() => workspace.cleanup());
+
+function layout(labels: string[]) {
+  return {
+    storage: labels.map((label, slot) => ({
+      contract: "src/Vault.sol:Vault",
+      label,
+      offset: 0,
+      slot: String(slot),
+      type: "t_uint256",
+    })),
+    types: {
+      t_uint256: { encoding: "inplace", label: "uint256", numberOfBytes: "32" },
+    },
+  };
+}
+
+async function setup() {
+  const providers = await workspace.createProviders();
+  const releasedPath = await workspace.writeArtifacts([
+    createBuildInfo("a", {
+      "src/Vault.sol:Vault": { storageLayout: layout(["owner", "balance"]) },
+    }),
+  ]);
+  await pushArtifact(
+    releasedPath,
+    PROJECT,
+    "v1",
+    { force: false, debug: false },
+    providers.storageProvider,
+  );
+  return providers;
+}
+
+describe("storage layout", () => {
+  test("the missing artifact is pulled and the unsafe changes are reported", async () => {
+    const { storageProvider, localProvider } = await setup();
+    const freshPath = await workspace.writeArtifacts([
+      createBuildInfo("b", {
+        "src/Vault.sol:Vault": {
+          storageLayout: layout(["balance", "owner", "fee"]),
+        },
+      }),
+    ]);
+
+    const result = await checkStorageLayouts(
+      freshPath,
+      { project: PROJECT, tagOrId: "v1" },
+      {},
+      localProvider,
+      storageProvider,
+    );
+
+    expect(result.checkedContracts).toBe(1);
+    expect(result.issues.map(({ kind, label }) => ({ kind, label }))).toEqual([
+      { kind: "reordered", label: "owner" },
+      { kind: "reordered", label: "balance" },
+    ]);
+    expect(await localProvider.hasTag(PROJECT, "v1")).toBe(true);
+  });
+
+  test("the missing artifact is not pulled without storage provider", async () => {
+    const { localProvider } = await setup();
+    const freshPath = await workspace.writeArtifacts([
+      createBuildInfo("b", {
+        "src/Vault.sol:Vault": { storageLayout: layout(["owner", "balance"]) },
+      }),
+    ]);
+
+    await expect(
+      checkStorageLayouts(
+        freshPath,
+        { project: PROJECT, tagOrId: "v1" },
+        {},
+        localProvider,
+      ),
+    ).rejects.toThrow(ScriptError);
+  });
+});
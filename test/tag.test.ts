@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, test } from "vitest";
+import { pushArtifact } from "../src/scripts/push";
+import { pull } from "../src/scripts/pull";
+import { tagArtifact } from "../src/scripts/tag";
+import { ScriptError } from "../src/utils";
+import { createBuildInfo, PROJECT, Workspace } from "./fixtures";
+
+const workspace = new Workspace();
+afterEach(() => workspace.cleanup());
+
+const opts = { force: false, debug: false };
+
+describe("tag", () => {
+  test("an existing ID is tagged", async () => {
+    const { storageProvider, localProvider } =
+      await workspace.createProviders();
+    const id = await pushArtifact(
+      await workspace.writeArtifacts([
+        createBuildInfo("a", { "src/Foo.sol:Foo": {} }),
+      ]),
+      PROJECT,
+      undefined,
+      opts,
+      storageProvider,
+    );
+
+    await tagArtifact(PROJECT, id, "v1", opts, storageProvider);
+
+    const result = await pull(
+      PROJECT,
+      "v1",
+      opts,
+      localProvider,
+      storageProvider,
+    );
+    expect(result.pulledTags).toEqual(["v1"]);
+  });
+
+  test("an existing tag is moved only if forced", async () => {
+    const { storageProvider, localProvider } =
+      await workspace.createProviders();
+    await pushArtifact(
+      await workspace.writeArtifacts([
+        createBuildInfo("a", { "src/Foo.sol:Foo": {} }),
+      ]),
+      PROJECT,
+      "v1",
+      opts,
+      storageProvider,
+    );
+    const secondId = await pushArtifact(
+      await workspace.writeArtifacts([
+        createBuildInfo("b", { "src/Bar.sol:Bar": {} }),
+      ]),
+      PROJECT,
+      undefined,
+      opts,
+      storageProvider,
+    );
+
+    await expect(
+      tagArtifact(PROJECT, secondId, "v1", opts, storageProvider),
+    ).rejects.toThrow(ScriptError);
+    await tagArtifact(
+      PROJECT,
+      secondId,
+      "v1",
+      { ...opts, force: true },
+      storageProvider,
+    );
+    await pull(PROJECT, "v1", opts, localProvider, storageProvider);
+    const [pulledBuildInfo] = await localProvider.retrieveBuildInfosByTag(
+      PROJECT,
+      "v1",
+    );
+    expect(pulledBuildInfo.output.contracts["src/Bar.sol"]).toBeDefined();
+  });
+
+  test("an unknown ID is not tagged", async () => {
+    const { storageProvider } = await workspace.createProviders();
+
+    await expect(
+      tagArtifact(PROJECT, "unknown", "v1", opts, storageProvider),
+    ).rejects.toThrow(ScriptError);
+    expect(await storageProvider.hasArtifactByTag(PROJECT, "v1")).toBe(false);
+  });
+});
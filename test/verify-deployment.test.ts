@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, test } from "vitest";
+import { pushArtifact } from "../src/scripts/push";
+import { pull } from "../src/scripts/pull";
+import {
+  JsonRpcProvider,
+  verifyDeployment,
+} from "../src/scripts/verify-deployment";
+import {
+  createBuildInfo,
+  metadataSuffix,
+  PROJECT,
+  Workspace,
+} from "./fixtures";
+
+const workspace = new Workspace();
+afterEach(() => workspace.cleanup());
+
+const ADDRESS = "0x5fbdb2315678afecb367f032d93f642f64180aa3";
+
+async function verify(deployedBytecode: string, onchainCode: string) {
+  const { storageProvider, localProvider } = await workspace.createProviders();
+  const opts = { force: false, debug: false };
+  await pushArtifact(
+    await workspace.writeArtifacts([
+      createBuildInfo("a", { "src/Lib.sol:Lib": { deployedBytecode } }),
+    ]),
+    PROJECT,
+    "v1",
+    opts,
+    storageProvider,
+  );
+  await pull(PROJECT, "v1", opts, localProvider, storageProvider);
+  const rpcProvider: JsonRpcProvider = {
+    request: async () => onchainCode,
+  };
+  return verifyDeployment(
+    { project: PROJECT, tagOrId: "v1" },
+    { contract: "src/Lib.sol:Lib", address: ADDRESS },
+    {},
+    localProvider,
+    rpcProvider,
+  );
+}
+
+describe("verify deployment", () => {
+  test("the code of a contract is matched", async () => {
+    const code = `6080604052${metadataSuffix("aa")}`;
+
+    expect(await verify(code, `0x${code}`)).toEqual({
+      status: "match",
+      metadataMatch: true,
+      maskedBytes: 0,
+    });
+  });
+
+  test("the address of a deployed library in its call protection is ignored", async () => {
+    const code = `6080604052${metadataSuffix("aa")}`;
+
+    expect(
+      await verify(
+        `73${"0".repeat(40)}${code}`,
+        `0x73${ADDRESS.slice(2)}${code}`,
+      ),
+    ).toEqual({ status: "match", metadataMatch: true, maskedBytes: 20 });
+  });
+
+  test("a different code is a mismatch", async () => {
+    expect(
+      await verify(
+        `6080604052${metadataSuffix("aa")}`,
+        `0x6080604053${metadataSuffix("aa")}`,
+      ),
+    ).toEqual({
+      status: "mismatch",
+      reason: "the deployed code differs from byte 4",
+    });
+  });
+});